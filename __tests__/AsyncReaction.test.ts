@@ -0,0 +1,66 @@
+import {Reactor, InPort, OutPort, Tag, TimeValue} from "../src/core/internal";
+import {ReactorTestBench} from "../src/share/ReactorTestBench";
+
+const sleep = async (msec: number): Promise<void> => {
+  await new Promise((resolve) => setTimeout(resolve, msec));
+};
+
+class Doubler extends Reactor {
+  in = new InPort<number>(this);
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor) {
+    super(parent);
+    this.addAsyncReaction(
+      [this.in],
+      [this.in, this.writable(this.out)],
+      async function (this, inp, out) {
+        const value = inp.get();
+        await sleep(10);
+        if (value !== undefined) {
+          out.set(value * 2);
+        }
+      }
+    );
+  }
+}
+
+class Failing extends Reactor {
+  in = new InPort<number>(this);
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor) {
+    super(parent);
+    this.addAsyncReaction([this.in], [], async function (this) {
+      await sleep(1);
+      throw new Error("Boom");
+    });
+  }
+}
+
+const at = (msec: number, microstep = 0): Tag =>
+  new Tag(TimeValue.msec(msec), microstep);
+
+describe("Async reactions", () => {
+  it("hold logical time until they complete", async () => {
+    const bench = new ReactorTestBench((parent) => new Doubler(parent));
+    bench
+      .setInput(bench.dut.in, 1, at(0))
+      .setInput(bench.dut.in, 2, at(0, 1))
+      .setInput(bench.dut.in, 3, at(1));
+    await bench.run();
+
+    bench.expectOutput(bench.dut.out, 2, at(0));
+    bench.expectOutput(bench.dut.out, 4, at(0, 1));
+    bench.expectOutput(bench.dut.out, 6, at(1));
+    expect(bench.getOutputs(bench.dut.out).length).toBe(3);
+  });
+
+  it("request an error stop when they fail", async () => {
+    const bench = new ReactorTestBench((parent) => new Failing(parent));
+    bench.setInput(bench.dut.in, 1, at(0));
+    await expect(bench.run()).rejects.toThrowError(/Boom/);
+  });
+});
@@ -0,0 +1,64 @@
+import {App, Bank, Reactor} from "../src/core/internal";
+
+class Cell extends Reactor {
+  coordinates: [number, number];
+
+  constructor(
+    parent: Reactor,
+    readonly initial: number
+  ) {
+    super(parent);
+    this.coordinates = [this.getBankIndex(1), this.getBankIndex()];
+  }
+}
+
+class Row extends Reactor {
+  cells: Bank<Cell, [Reactor, number]>;
+
+  constructor(parent: Reactor, width: number) {
+    super(parent);
+    const row = this.getBankIndex();
+    this.cells = Bank.withParameters(this, width, Cell, (column) => [
+      this,
+      row * width + column
+    ]);
+  }
+}
+
+class Grid extends App {
+  rows: Bank<Row, [Reactor, number]> = Bank.withParameters(this, 2, Row, () => [
+    this,
+    3
+  ]);
+}
+
+describe("Bank parameters", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("compute the parameters of members from their index", () => {
+    const grid = new Grid();
+    expect(
+      grid.rows.all().map((row) => row.cells.all().map((c) => c.initial))
+    ).toEqual([
+      [0, 1, 2],
+      [3, 4, 5]
+    ]);
+  });
+
+  it("report the indices of nested banks", () => {
+    const grid = new Grid();
+    const cell = grid.rows.get(1).cells.get(2);
+    expect(cell.coordinates).toEqual([1, 2]);
+    expect(cell.getBankIndex(2)).toBe(-1);
+    expect(cell.getBankIndex(5)).toBe(-1);
+  });
+
+  it("construct members quietly", () => {
+    const log = jest.spyOn(console, "log");
+    const grid = new Grid();
+    expect(grid.rows.all()).toHaveLength(2);
+    expect(log).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  Action,
+  App,
+  Mode,
+  Origin,
+  type ScheduledEvent,
+  Timer,
+  TimeValue,
+  Transition,
+  VirtualClock
+} from "../src/core/internal";
+
+/**
+ * Reactor that sends a request at startup, gives up after a timeout, and
+ * stops waiting once the response arrives.
+ */
+class Client extends App {
+  response = new Action<string>(this, Origin.logical);
+
+  timeout = new Action<null>(this, Origin.logical);
+
+  log = new Array<string>();
+
+  constructor(responseDelay: TimeValue, success: () => void) {
+    super(
+      undefined,
+      false,
+      true,
+      success,
+      () => undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    const log = this.log;
+    let pending: ScheduledEvent | undefined;
+    this.addReaction(
+      [this.startup],
+      [this.schedulable(this.response), this.schedulable(this.timeout)],
+      function (this, response, timeout) {
+        response.schedule(responseDelay, "ok");
+        pending = timeout.schedule(TimeValue.sec(1), null);
+        log.push(`pending: ${timeout.pendingCount()}`);
+      }
+    );
+    this.addReaction(
+      [this.response],
+      [this.response, this.schedulable(this.timeout)],
+      function (this, response, timeout) {
+        log.push(`${response.get()} (timeout present: ${timeout.isPresent()})`);
+        log.push(`cancelled: ${pending?.cancel()}`);
+        log.push(`pending: ${timeout.pendingCount()}`);
+      }
+    );
+    this.addReaction(
+      [this.timeout],
+      [this.schedulable(this.timeout)],
+      function (this, timeout) {
+        log.push(`timed out (present: ${timeout.isPresent()})`);
+        log.push(`still pending: ${pending?.isPending()}`);
+      }
+    );
+  }
+}
+
+/**
+ * App that schedules an alarm and then leaves the mode the alarm is attached
+ * to, so that the alarm is suspended until the mode is entered again.
+ */
+class Sleeper extends App {
+  awake = new Mode(this);
+
+  asleep = new Mode(this);
+
+  alarm!: Action<null>;
+
+  check = new Timer(this, TimeValue.msec(500), 0);
+
+  log = new Array<string>();
+
+  constructor() {
+    super(TimeValue.sec(2), false, true);
+    this.inMode(this.awake, () => {
+      this.alarm = new Action<null>(this, Origin.logical);
+    });
+    const log = this.log;
+    let pending: ScheduledEvent | undefined;
+    this.addReaction(
+      [this.startup],
+      [this.schedulable(this.alarm), this.switchable(this.asleep)],
+      function (this, alarm, asleep) {
+        pending = alarm.schedule(TimeValue.sec(1), null);
+        asleep.set();
+      }
+    );
+    this.addReaction(
+      [this.check],
+      [this.schedulable(this.alarm), this.switchable(this.awake)],
+      function (this, alarm, awake) {
+        log.push(`pending: ${alarm.pendingCount()} ${pending?.isPending()}`);
+        log.push(`cancelled: ${pending?.cancel()}`);
+        log.push(`pending: ${alarm.pendingCount()} ${pending?.isPending()}`);
+        awake.set(Transition.HISTORY);
+      }
+    );
+    this.inMode(this.awake, () => {
+      this.addReaction([this.alarm], [], function (this) {
+        log.push("alarm");
+      });
+    });
+  }
+}
+
+describe("Scheduled events", () => {
+  it("can be cancelled before they occur", (done) => {
+    const app = new Client(TimeValue.msec(300), () => {
+      expect(app.log).toEqual([
+        "pending: 1",
+        "ok (timeout present: false)",
+        "cancelled: true",
+        "pending: 0"
+      ]);
+      done();
+    });
+    app._start();
+  });
+
+  it("cannot be cancelled once they have occurred", (done) => {
+    const app = new Client(TimeValue.sec(2), () => {
+      expect(app.log).toEqual([
+        "pending: 1",
+        "timed out (present: true)",
+        "still pending: false",
+        "ok (timeout present: false)",
+        "cancelled: false",
+        "pending: 0"
+      ]);
+      done();
+    });
+    app._start();
+  });
+
+  it("can be cancelled while suspended in an inactive mode", async () => {
+    const app = new Sleeper();
+    await app.run();
+    expect(app.log).toEqual([
+      "pending: 1 true",
+      "cancelled: true",
+      "pending: 0 false"
+    ]);
+  });
+});
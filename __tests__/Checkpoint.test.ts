@@ -0,0 +1,284 @@
+import {
+  type Checkpoint,
+  type Codec,
+  Action,
+  App,
+  Origin,
+  State,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+class Point {
+  constructor(
+    readonly x: number,
+    readonly y: number
+  ) {}
+}
+
+const pointCodec: Codec<Point> = {
+  name: "Point",
+  accepts: (value) => value instanceof Point,
+  encode: (point) => [point.x, point.y],
+  decode: (data) => {
+    const [x, y] = data as [number, number];
+    return new Point(x, y);
+  }
+};
+
+class Walker extends App {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  move = new Action<Point>(this, Origin.logical, TimeValue.msec(500));
+
+  position = new State(new Point(0, 0));
+
+  steps = new State(0);
+
+  constructor(
+    log: string[],
+    success: () => void,
+    fail: () => void,
+    inReaction?: () => void
+  ) {
+    super(
+      TimeValue.sec(5),
+      false,
+      true,
+      success,
+      fail,
+      new VirtualClock(TimeValue.zero())
+    );
+    this.registerCodec(pointCodec);
+    this.addReaction(
+      [this.t],
+      [this.schedulable(this.move), this.position],
+      function (this, move, position) {
+        const p = position.get();
+        move.schedule(0, new Point(p.x + 1, p.y + 2));
+        inReaction?.();
+      }
+    );
+    this.addReaction(
+      [this.move],
+      [this.move, this.position, this.steps],
+      function (this, move, position, steps) {
+        const p = move.get() as Point;
+        position.set(p);
+        steps.set(steps.get() + 1);
+        log.push(`${this.util.getElapsedLogicalTime()}: (${p.x}, ${p.y})`);
+      }
+    );
+  }
+}
+
+/**
+ * App that logs timer events into a state variable, and that speeds up one
+ * timer and pauses the other after one second.
+ */
+class Sampler extends App {
+  fast = new Timer(this, 0, TimeValue.sec(1));
+
+  slow = new Timer(this, 0, TimeValue.sec(1));
+
+  samples = new State(new Array<string>());
+
+  constructor() {
+    super(
+      TimeValue.sec(5),
+      false,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    this.addReaction(
+      [this.fast],
+      [
+        this.controllable(this.fast),
+        this.controllable(this.slow),
+        this.samples
+      ],
+      function (this, fast, slow, samples) {
+        const elapsed = this.util.getElapsedLogicalTime();
+        samples.get().push(`fast at ${elapsed}`);
+        if (elapsed.isEqualTo(TimeValue.sec(1))) {
+          fast.setPeriod(TimeValue.msec(500));
+          slow.pause();
+        } else if (elapsed.isEqualTo(TimeValue.sec(3))) {
+          samples.get().push(`slow paused: ${slow.isPaused()}`);
+        }
+      }
+    );
+    this.addReaction([this.slow], [this.samples], function (this, samples) {
+      samples.get().push(`slow at ${this.util.getElapsedLogicalTime()}`);
+    });
+  }
+}
+
+describe("Checkpoints", () => {
+  it("cannot be taken before execution has started", () => {
+    const app = new Walker(
+      [],
+      () => undefined,
+      () => undefined
+    );
+    expect(() => app.checkpoint()).toThrowError(
+      "Cannot checkpoint an app before execution has started."
+    );
+  });
+
+  it("cannot be taken in the middle of a tag", (done) => {
+    const errors = new Array<string>();
+    const app = new Walker(
+      [],
+      () => {
+        expect(errors.length).toBe(6);
+        expect(errors[0]).toBe(
+          "Cannot checkpoint an app in the middle of a tag."
+        );
+        done();
+      },
+      () => undefined,
+      () => {
+        try {
+          app.checkpoint();
+        } catch (e) {
+          errors.push((e as Error).message);
+        }
+      }
+    );
+    app._start();
+  });
+
+  it("contain states, modes, and pending events", (done) => {
+    let checkpoint: Checkpoint | undefined;
+    const app = new Walker(
+      [],
+      () => {
+        expect(checkpoint?.tag).toEqual({time: [2, 0], microstep: 0});
+        expect(checkpoint?.end).toEqual({time: [5, 0], microstep: 0});
+        expect(checkpoint?.states["walker.steps"]).toEqual({data: 2});
+        expect(checkpoint?.states["walker.position"]).toEqual({
+          codec: "Point",
+          data: [2, 4]
+        });
+        expect(checkpoint?.modes).toEqual([]);
+        expect(checkpoint?.events.map((e) => [e.trigger, e.tag.time])).toEqual([
+          ["walker.move", [2, 500000000]],
+          ["walker.t", [3, 0]],
+          ["walker.shutdown", [5, 0]]
+        ]);
+        done();
+      },
+      () => undefined
+    );
+    app.enableCheckpoints(TimeValue.sec(2), (c) => {
+      checkpoint ??= c;
+    });
+    app._start();
+  });
+
+  it("require a codec for values that are not JSON", (done) => {
+    const app = new Walker(
+      [],
+      () => {
+        app.position.set(new Map() as unknown as Point);
+        expect(() => app.checkpoint()).toThrowError(
+          "No codec registered for the value of walker.position."
+        );
+        done();
+      },
+      () => undefined
+    );
+    app._start();
+  });
+
+  it("resume execution where it left off", async () => {
+    const original = new Array<string>();
+    let saved: string | undefined;
+    await new Promise<void>((resolve, reject) => {
+      const app = new Walker(original, resolve, reject);
+      app.enableCheckpoints(TimeValue.sec(2), (c) => {
+        saved ??= JSON.stringify(c);
+      });
+      app._start();
+    });
+    expect(original.length).toBe(5);
+    expect(saved).toBeDefined();
+
+    const resumed = new Array<string>();
+    let restored: Walker | undefined;
+    await new Promise<void>((resolve, reject) => {
+      restored = new Walker(resumed, resolve, reject);
+      restored.restore(JSON.parse(saved ?? "") as Checkpoint);
+      expect(restored.steps.get()).toBe(2);
+      restored._start();
+    });
+    expect(resumed).toEqual(original.slice(2));
+    expect(restored?.position.get()).toEqual(new Point(5, 10));
+    expect(restored?.steps.get()).toBe(5);
+  });
+
+  it("restore state, timers, and the time of the last checkpoint", async () => {
+    const original = new Sampler();
+    const checkpoints = new Array<Checkpoint>();
+    original.enableCheckpoints(TimeValue.sec(2), (c) => {
+      checkpoints.push(c);
+    });
+    await original.run();
+    const at = (sec: number): string => `${TimeValue.msec(sec * 1000)}`;
+    expect(checkpoints.map((c) => c.tag.time)).toEqual([
+      [2, 0],
+      [4, 0]
+    ]);
+    // The state kept changing after the checkpoint was taken.
+    expect(checkpoints[0].states["sampler.samples"]).toEqual({
+      data: [
+        `fast at ${at(0)}`,
+        `slow at ${at(0)}`,
+        `fast at ${at(1)}`,
+        `slow at ${at(1)}`,
+        `fast at ${at(1.5)}`,
+        `fast at ${at(2)}`
+      ]
+    });
+    expect(checkpoints[0].timers["sampler.fast"]).toEqual({
+      period: [0, 500000000],
+      paused: false
+    });
+    expect(checkpoints[0].timers["sampler.slow"].paused).toBe(true);
+
+    const restored = new Sampler();
+    const later = new Array<Checkpoint>();
+    restored.enableCheckpoints(TimeValue.sec(2), (c) => {
+      later.push(c);
+    });
+    restored.restore(checkpoints[0]);
+    await restored.run();
+    expect(restored.samples.get()).toEqual(original.samples.get());
+    expect(restored.samples.get()).toContain("slow paused: true");
+    expect(later.map((c) => c.tag.time)).toEqual([[4, 0]]);
+    // Restoring the checkpoint did not change it.
+    expect(checkpoints[0].states["sampler.samples"].data).toHaveLength(6);
+  });
+
+  it("refer to components that must exist", () => {
+    const app = new Walker(
+      [],
+      () => undefined,
+      () => undefined
+    );
+    expect(() => {
+      app.restore({
+        version: 1,
+        tag: {time: [0, 0], microstep: 0},
+        states: {"walker.missing": {data: 1}},
+        modes: [],
+        timers: {},
+        events: []
+      });
+    }).toThrowError("Checkpoint refers to unknown component walker.missing.");
+  });
+});
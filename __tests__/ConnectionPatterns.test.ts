@@ -0,0 +1,182 @@
+import {
+  App,
+  Bank,
+  InMultiPort,
+  InPort,
+  Log,
+  OutMultiPort,
+  OutPort,
+  Reactor
+} from "../src/core/internal";
+
+/**
+ * Reactor that sends a label for each of its output channels at startup.
+ */
+class Scatter extends Reactor {
+  out: OutMultiPort<string>;
+
+  constructor(parent: Reactor, width: number) {
+    super(parent);
+    this.out = new OutMultiPort<string>(this, width);
+    const label = `${this.getBankIndex()}`;
+    this.addReaction(
+      [this.startup],
+      [this.allWritable(this.out)],
+      function (this, out) {
+        for (let i = 0; i < out.width(); i++) {
+          out.set(i, `${label}.${i}`);
+        }
+      }
+    );
+  }
+}
+
+class Worker extends Reactor {
+  in = new InPort<string>(this);
+
+  received = new Array<string | undefined>();
+
+  constructor(parent: Reactor) {
+    super(parent);
+    const received = this.received;
+    this.addReaction([this.in], [this.in], function (this, inp) {
+      received.push(inp.get());
+    });
+  }
+}
+
+class Gather extends Reactor {
+  in: InMultiPort<string>;
+
+  received = new Array<string | undefined>();
+
+  constructor(parent: Reactor, width: number) {
+    super(parent);
+    this.in = new InMultiPort<string>(this, width);
+    const received = this.received;
+    this.addReaction([this.in], [this.in], function (this, inp) {
+      received.push(...inp.values());
+    });
+  }
+}
+
+class Single extends Reactor {
+  out = new OutPort<string>(this);
+
+  constructor(parent: Reactor) {
+    super(parent);
+    this.addReaction(
+      [this.startup],
+      [this.writable(this.out)],
+      function (this, out) {
+        out.set("hello");
+      }
+    );
+  }
+}
+
+describe("Connection patterns", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("broadcast a port to a bank", async () => {
+    class Broadcast extends App {
+      single = new Single(this);
+
+      workers = new Bank(this, 3, Worker, this);
+
+      constructor() {
+        super();
+        this._connectMulti(
+          [this.single.out],
+          this.workers.port((member) => member.in),
+          true
+        );
+      }
+    }
+    const app = new Broadcast();
+    await app.run();
+    expect(app.workers.all().map((w) => w.received)).toEqual([
+      ["hello"],
+      ["hello"],
+      ["hello"]
+    ]);
+  });
+
+  it("scatter and gather multiports across a bank", async () => {
+    class ScatterGather extends App {
+      scatter = new Scatter(this, 4);
+
+      workers = new Bank(this, 4, Worker, this);
+
+      sources = new Bank(this, 2, Scatter, this, 3);
+
+      gather = new Gather(this, 6);
+
+      constructor() {
+        super();
+        this._connectMulti(
+          [this.scatter.out],
+          this.workers.port((member) => member.in),
+          false
+        );
+        this._connectMulti(
+          this.sources.interleaved((member) => member.out),
+          [this.gather.in],
+          false
+        );
+      }
+    }
+    const app = new ScatterGather();
+    await app.run();
+    expect(app.workers.all().map((w) => w.received)).toEqual([
+      ["-1.0"],
+      ["-1.1"],
+      ["-1.2"],
+      ["-1.3"]
+    ]);
+    expect(app.gather.received).toEqual([
+      "0.0",
+      "1.0",
+      "0.1",
+      "1.1",
+      "0.2",
+      "1.2"
+    ]);
+  });
+
+  it("warn about unconnected channels", () => {
+    const warnings = new Array<string>();
+    jest.spyOn(Log, "warn").mockImplementation((_, message) => {
+      warnings.push(message());
+    });
+    class Mismatch extends App {
+      scatter = new Scatter(this, 3);
+
+      workers = new Bank(this, 2, Worker, this);
+
+      gather = new Gather(this, 5);
+
+      constructor() {
+        super();
+        this._connectMulti(
+          [this.scatter.out],
+          this.workers.port((member) => member.in),
+          false
+        );
+        this._connectMulti([this.scatter.out], [this.gather.in], true);
+      }
+    }
+    const app = new Mismatch();
+    expect(warnings).toEqual([
+      `The source of the connection from ${app.scatter.out} to ` +
+        `${app.workers.get(0).in}, ${app.workers.get(1).in} is wider than ` +
+        `its destination; channels ${app.scatter.out.channel(2)} will not ` +
+        "be connected.",
+      `The width of the destination (5) of the broadcast from ` +
+        `${app.scatter.out} to ${app.gather.in} is not a multiple of the ` +
+        "width of the source (3)."
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  App,
+  type Checkpoint,
+  InPort,
+  OutPort,
+  Reactor,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+/**
+ * Reactor that sends an increasing count once per second.
+ */
+class Source extends Reactor {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor) {
+    super(parent);
+    let count = 0;
+    this.addReaction([this.t], [this.writable(this.out)], function (this, out) {
+      out.set(count++);
+    });
+  }
+}
+
+/**
+ * Reactor that logs the values it receives and increments them, optionally
+ * starting off with a value at startup.
+ */
+class Increment extends Reactor {
+  in = new InPort<number>(this);
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor, log: string[], start: boolean) {
+    super(parent);
+    this.addReaction(
+      [this.startup, this.in],
+      [this.in, this.writable(this.out)],
+      function (this, inp, out) {
+        const value = inp.get();
+        if (value !== undefined) {
+          log.push(`${value} at ${this.util.getCurrentTag()}`);
+          out.set(value + 1);
+        } else if (start) {
+          out.set(0);
+        }
+      }
+    );
+  }
+}
+
+class Pipeline extends App {
+  log = new Array<string>();
+
+  source = new Source(this);
+
+  sink = new Increment(this, this.log, false);
+
+  constructor(after: TimeValue) {
+    super(
+      TimeValue.sec(2),
+      false,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    this._connect(this.source.out, this.sink.in, {after});
+  }
+}
+
+class Feedback extends App {
+  log = new Array<string>();
+
+  first = new Increment(this, this.log, true);
+
+  second = new Increment(this, this.log, false);
+
+  constructor(atRuntime: boolean) {
+    super(
+      TimeValue.sec(2),
+      false,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    this._connect(this.first.out, this.second.in);
+    if (atRuntime) {
+      const self = this;
+      this.addMutation([this.startup], [], function (this) {
+        this.connect(
+          self.second.out.asConnectable(),
+          self.first.in.asConnectable(),
+          {after: TimeValue.sec(1)}
+        );
+      });
+    } else {
+      this._connect(this.second.out, this.first.in, {
+        after: TimeValue.sec(1)
+      });
+    }
+  }
+}
+
+/**
+ * App that sends the values of a source to two sinks via delayed connections.
+ */
+class Fork extends App {
+  log = new Array<string>();
+
+  source = new Source(this);
+
+  first = new Increment(this, this.log, false);
+
+  second = new Increment(this, this.log, false);
+
+  constructor() {
+    super(
+      TimeValue.sec(2),
+      false,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    const after = TimeValue.msec(500);
+    this._connect(this.source.out, this.first.in, {after});
+    this._connect(this.source.out, this.second.in, {after});
+  }
+}
+
+const at = (msec: number, microstep = 0): string =>
+  `(${TimeValue.msec(msec)}, ${microstep})`;
+
+describe("Delayed connections", () => {
+  it("deliver values after the delay", async () => {
+    const app = new Pipeline(TimeValue.msec(500));
+    await app.run();
+    expect(app.log).toEqual([`0 at ${at(500)}`, `1 at ${at(1500)}`]);
+  });
+
+  it("deliver values at the next microstep if the delay is zero", async () => {
+    const app = new Pipeline(TimeValue.zero());
+    await app.run();
+    // The value sent at the end of execution is not delivered.
+    expect(app.log).toEqual([`0 at ${at(0, 1)}`, `1 at ${at(1000, 1)}`]);
+  });
+
+  it("break causality loops", async () => {
+    const app = new Feedback(false);
+    const report = await app.run();
+    expect(report.errored).toBe(false);
+    expect(app.log).toEqual([
+      `0 at ${at(0)}`,
+      `1 at ${at(1000)}`,
+      `2 at ${at(1000)}`,
+      `3 at ${at(2000)}`,
+      `4 at ${at(2000)}`
+    ]);
+  });
+
+  it("break causality loops when added at runtime", async () => {
+    const app = new Feedback(true);
+    const report = await app.run();
+    expect(report.errored).toBe(false);
+    expect(app.log).toEqual([
+      `0 at ${at(0)}`,
+      `1 at ${at(1000)}`,
+      `2 at ${at(1000)}`,
+      `3 at ${at(2000)}`,
+      `4 at ${at(2000)}`
+    ]);
+  });
+
+  it("have delays that can be checkpointed", async () => {
+    const run = async (): Promise<Checkpoint[]> => {
+      const app = new Fork();
+      const checkpoints = new Array<Checkpoint>();
+      app.enableCheckpoints(TimeValue.sec(1), (c) => {
+        checkpoints.push(c);
+      });
+      const report = await app.run();
+      expect(report.errored).toBe(false);
+      return checkpoints;
+    };
+    const checkpoints = await run();
+    expect(checkpoints[0].events.map((e) => e.trigger).sort()).toEqual(
+      [
+        "fork.source.out->first.in.action",
+        "fork.source.out->second.in.action",
+        "fork.source.t",
+        "fork.shutdown"
+      ].sort()
+    );
+    // The delays have the same names each time the app is constructed.
+    expect(await run()).toEqual(checkpoints);
+  });
+});
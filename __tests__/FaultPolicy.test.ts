@@ -0,0 +1,137 @@
+import {
+  type Fault,
+  FaultPolicy,
+  InPort,
+  OutPort,
+  Reactor,
+  Tag,
+  TimeValue
+} from "../src/core/internal";
+import {ReactorTestBench} from "../src/share/ReactorTestBench";
+
+/**
+ * Reactor that forwards its input, but fails on negative values.
+ */
+class Picky extends Reactor {
+  in = new InPort<number>(this);
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor, policy?: FaultPolicy) {
+    super(parent);
+    if (policy !== undefined) {
+      this.setFaultPolicy(policy);
+    }
+    this.addReaction(
+      [this.in],
+      [this.in, this.writable(this.out)],
+      function (this, inp, out) {
+        const value = inp.get() ?? 0;
+        if (value < 0) {
+          throw new Error(`Negative value: ${value}`);
+        }
+        out.set(value);
+      }
+    );
+  }
+}
+
+/**
+ * Reactor that handles the faults of a contained reactor.
+ */
+class Supervisor extends Reactor {
+  in = new InPort<number>(this);
+
+  out = new OutPort<number>(this);
+
+  errors = new OutPort<string>(this);
+
+  faults = new Array<Fault>();
+
+  child = new Picky(this);
+
+  constructor(parent: Reactor) {
+    super(parent);
+    this.setFaultPolicy(FaultPolicy.HANDLE);
+    this._connect(this.in, this.child.in);
+    this._connect(this.child.out, this.out);
+    const faults = this.faults;
+    this.addFaultHandler(
+      [this.writable(this.errors)],
+      function (this, fault, errors) {
+        faults.push(fault);
+        errors.set(`${fault.error}`);
+      }
+    );
+  }
+}
+
+/**
+ * Reactor with a fault handler that fails itself.
+ */
+class Clumsy extends Reactor {
+  in = new InPort<number>(this);
+
+  child = new Picky(this);
+
+  handled = 0;
+
+  constructor(parent: Reactor) {
+    super(parent);
+    this.setFaultPolicy(FaultPolicy.HANDLE);
+    this._connect(this.in, this.child.in);
+    const self = this;
+    this.addFaultHandler([], function (this) {
+      self.handled++;
+      throw new Error("Unable to handle fault");
+    });
+  }
+}
+
+const at = (msec: number, microstep = 0): Tag =>
+  new Tag(TimeValue.msec(msec), microstep);
+
+describe("Fault policy", () => {
+  it("aborts execution by default", async () => {
+    const bench = new ReactorTestBench((parent) => new Picky(parent));
+    bench.setInput(bench.dut.in, -1, at(0)).setInput(bench.dut.in, 1, at(1));
+    await expect(bench.run()).rejects.toThrowError("Negative value: -1");
+    expect(bench.getOutputs(bench.dut.out).length).toBe(0);
+  });
+
+  it("reports errors and continues execution", async () => {
+    const bench = new ReactorTestBench(
+      (parent) => new Picky(parent, FaultPolicy.REPORT)
+    );
+    bench.setInput(bench.dut.in, -1, at(0)).setInput(bench.dut.in, 1, at(1));
+    await expect(bench.run()).rejects.toThrowError(
+      "Exception occurred in reaction: reactorTestBench.dut[R0]: " +
+        "Error: Negative value: -1"
+    );
+    bench.expectAbsent(bench.dut.out, at(0));
+    bench.expectOutput(bench.dut.out, 1, at(1));
+  });
+
+  it("routes errors to the fault handler of a container", async () => {
+    const bench = new ReactorTestBench((parent) => new Supervisor(parent));
+    bench
+      .setInput(bench.dut.in, 1, at(0))
+      .setInput(bench.dut.in, -2, at(1))
+      .setInput(bench.dut.in, 3, at(2));
+    await bench.run();
+
+    bench.expectOutput(bench.dut.out, 1, at(0));
+    bench.expectOutput(bench.dut.out, 3, at(2));
+    bench.expectOutput(bench.dut.errors, "Error: Negative value: -2", at(1, 1));
+    expect(bench.dut.faults.length).toBe(1);
+    expect(bench.dut.faults[0].reaction).toBe("reactorTestBench.dut.child[R0]");
+    expect(bench.dut.faults[0].tag.isSimultaneousWith(at(1))).toBe(true);
+  });
+
+  it("aborts execution if a fault handler fails", async () => {
+    const bench = new ReactorTestBench((parent) => new Clumsy(parent));
+    bench.setInput(bench.dut.in, -1, at(0)).setInput(bench.dut.in, -2, at(1));
+    await expect(bench.run()).rejects.toThrowError("Unable to handle fault");
+    expect(bench.dut.handled).toBe(1);
+  });
+});
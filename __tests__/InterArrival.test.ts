@@ -0,0 +1,139 @@
+import {
+  Action,
+  App,
+  InterArrivalPolicy,
+  Origin,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+class Sensor extends App {
+  reading: Action<number>;
+
+  log = new Array<string>();
+
+  constructor(
+    policy: InterArrivalPolicy | undefined,
+    schedule: Array<[number, number, boolean?]>,
+    success: () => void
+  ) {
+    super(
+      undefined,
+      false,
+      true,
+      success,
+      () => undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    this.reading = new Action<number>(
+      this,
+      Origin.logical,
+      TimeValue.zero(),
+      TimeValue.msec(100),
+      policy
+    );
+    this.addReaction(
+      [this.startup],
+      [this.schedulable(this.reading)],
+      function (this, reading) {
+        for (const [delay, value, cancel] of schedule) {
+          const event = reading.schedule(TimeValue.msec(delay), value);
+          if (cancel === true) {
+            event.cancel();
+          }
+        }
+      }
+    );
+    const log = this.log;
+    this.addReaction([this.reading], [this.reading], function (this, reading) {
+      log.push(`${reading.get()} at ${this.util.getElapsedLogicalTime()}`);
+    });
+  }
+}
+
+const at = (msec: number): string => `${TimeValue.msec(msec)}`;
+
+describe("Minimum interarrival time", () => {
+  const schedule: Array<[number, number]> = [
+    [10, 1],
+    [50, 2],
+    [200, 3]
+  ];
+
+  it("defers events by default", (done) => {
+    const app = new Sensor(undefined, schedule, () => {
+      expect(app.log).toEqual([
+        `1 at ${at(10)}`,
+        `2 at ${at(110)}`,
+        `3 at ${at(210)}`
+      ]);
+      done();
+    });
+    app._start();
+  });
+
+  it("can drop events", (done) => {
+    const app = new Sensor(InterArrivalPolicy.DROP, schedule, () => {
+      expect(app.log).toEqual([`1 at ${at(10)}`, `3 at ${at(200)}`]);
+      expect(app.reading.getDroppedCount()).toBe(1);
+      done();
+    });
+    app._start();
+  });
+
+  it("can replace the value of a pending event", (done) => {
+    const app = new Sensor(InterArrivalPolicy.REPLACE, schedule, () => {
+      expect(app.log).toEqual([`2 at ${at(10)}`, `3 at ${at(200)}`]);
+      expect(app.reading.getDroppedCount()).toBe(0);
+      done();
+    });
+    app._start();
+  });
+
+  it("only replace the value of events that are still pending", (done) => {
+    const app = new Sensor(
+      InterArrivalPolicy.REPLACE,
+      [
+        [10, 1, true],
+        [50, 2]
+      ],
+      () => {
+        expect(app.log).toEqual([`2 at ${at(50)}`]);
+        done();
+      }
+    );
+    app._start();
+  });
+
+  it("does not drop events because of cancelled ones", (done) => {
+    const app = new Sensor(
+      InterArrivalPolicy.DROP,
+      [
+        [10, 1, true],
+        [50, 2]
+      ],
+      () => {
+        expect(app.log).toEqual([`2 at ${at(50)}`]);
+        expect(app.reading.getDroppedCount()).toBe(0);
+        done();
+      }
+    );
+    app._start();
+  });
+
+  it("measures from the previous event that was not cancelled", (done) => {
+    const app = new Sensor(
+      undefined,
+      [
+        [10, 1],
+        [150, 2, true],
+        [200, 3]
+      ],
+      () => {
+        expect(app.log).toEqual([`1 at ${at(10)}`, `3 at ${at(200)}`]);
+        done();
+      }
+    );
+    app._start();
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  App,
+  Histogram,
+  MetricsRegistry,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+class Periodic extends App {
+  t = new Timer(this, 0, TimeValue.msec(100));
+
+  constructor(clock: VirtualClock, success: () => void, fail: () => void) {
+    super(TimeValue.msec(200), false, false, success, fail, clock);
+    this.addReaction(
+      [this.t],
+      [],
+      function (this) {
+        // On time.
+      },
+      TimeValue.msec(10),
+      function (this) {
+        // Late.
+      }
+    );
+  }
+}
+
+/**
+ * App that runs ahead of physical time and of which the reactions complete
+ * asynchronously.
+ */
+class Eager extends App {
+  t = new Timer(this, 0, TimeValue.msec(100));
+
+  constructor() {
+    super(
+      TimeValue.msec(200),
+      false,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    this.addAsyncReaction([this.t], [], async function (this) {
+      await Promise.resolve();
+    });
+  }
+}
+
+describe("Histogram", () => {
+  it("summarizes recorded values", () => {
+    const histogram = Histogram.exponential(1, 2, 4);
+    for (const value of [0.5, 1, 3, 3, 7, 20]) {
+      histogram.record(value);
+    }
+    const snapshot = histogram.snapshot();
+    expect(snapshot.count).toBe(6);
+    expect(snapshot.min).toBe(0.5);
+    expect(snapshot.max).toBe(20);
+    expect(snapshot.mean).toBeCloseTo(34.5 / 6);
+    expect(snapshot.p50).toBe(4);
+    expect(snapshot.p99).toBe(20);
+    expect(snapshot.buckets).toEqual([
+      {le: 1, count: 2},
+      {le: 2, count: 0},
+      {le: 4, count: 2},
+      {le: 8, count: 1},
+      {le: Infinity, count: 1}
+    ]);
+  });
+
+  it("buckets negative values", () => {
+    const histogram = Histogram.signedExponential(1, 2, 2);
+    for (const value of [-3, -2, -0.5, 0, 1.5, 5]) {
+      histogram.record(value);
+    }
+    const snapshot = histogram.snapshot();
+    expect(snapshot.min).toBe(-3);
+    expect(snapshot.buckets).toEqual([
+      {le: -2, count: 2},
+      {le: -1, count: 0},
+      {le: 0, count: 2},
+      {le: 1, count: 0},
+      {le: 2, count: 1},
+      {le: Infinity, count: 1}
+    ]);
+  });
+
+  it("reports zeros when empty", () => {
+    const snapshot = Histogram.exponential(1, 2, 4).snapshot();
+    expect(snapshot.count).toBe(0);
+    expect(snapshot.min).toBe(0);
+    expect(snapshot.max).toBe(0);
+    expect(snapshot.p99).toBe(0);
+  });
+});
+
+describe("Metrics", () => {
+  it("are not recorded unless enabled", () => {
+    expect(new App().getMetrics()).toBeUndefined();
+  });
+
+  it("count invocations and deadline violations", (done) => {
+    const clock = new VirtualClock();
+    const app = new Periodic(
+      clock,
+      () => {
+        const metrics = app.getMetrics();
+        expect(metrics?.reactions.length).toBeGreaterThan(0);
+        const reaction = metrics?.reactions.find(
+          (r) => r.reaction === "periodic[R0]"
+        );
+        expect(reaction?.reactor).toBe("periodic");
+        expect(reaction?.executionTime.count).toBe(3);
+        expect(reaction?.deadlineViolations).toBe(1);
+        // The timer event at 100 msec was handled 50 msec late.
+        expect(metrics?.lag.max).toBe(50000);
+        done();
+      },
+      () => {
+        done(new Error("Unexpected failure."));
+      }
+    );
+    app.enableMetrics();
+    app._start();
+    clock.advanceTo(TimeValue.msec(150));
+    clock.advanceTo(TimeValue.msec(200));
+  });
+
+  it("count each tag once", async () => {
+    const app = new Eager();
+    app.enableMetrics();
+    await app.run();
+    const metrics = app.getMetrics();
+    expect(metrics?.eventQueueSize.count).toBe(3);
+    expect(metrics?.reactionQueueSize.count).toBe(3);
+    // Logical time runs ahead of physical time, which stands still.
+    expect(metrics?.lag.min).toBe(-200000);
+    expect(
+      metrics?.lag.buckets
+        .filter((bucket) => bucket.le < 0)
+        .reduce((sum, bucket) => sum + bucket.count, 0)
+    ).toBe(2);
+  });
+
+  it("are printed at the end of execution", async () => {
+    const print = jest
+      .spyOn(console, "log")
+      .mockImplementation(() => undefined);
+    const app = new Eager();
+    app.enableMetrics();
+    await app.run();
+    expect(print).toHaveBeenCalledWith(expect.stringContaining(">>> Metrics:"));
+    print.mockRestore();
+  });
+
+  it("summarize reactions in a table", () => {
+    const registry = new MetricsRegistry();
+    registry.recordTag(12, 3, 1);
+    expect(registry.summary()).toContain("Deadline violations");
+    expect(registry.summary()).toContain("Lag (us)");
+  });
+});
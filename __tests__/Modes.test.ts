@@ -0,0 +1,181 @@
+import {
+  App,
+  Mode,
+  Reactor,
+  Timer,
+  TimeValue,
+  Transition
+} from "../src/core/internal";
+
+/**
+ * Reactor that blinks every 4 msec, starting 1 msec after it starts or is
+ * reset.
+ */
+class Blinker extends Reactor {
+  blink = new Timer(this, TimeValue.msec(1), TimeValue.msec(4));
+
+  constructor(parent: Reactor, blinks: number[]) {
+    super(parent);
+    this.addReaction([this.blink], [], function (this) {
+      blinks.push(this.util.getElapsedLogicalTime().toMilliseconds());
+    });
+  }
+}
+
+/**
+ * Reactor that switches from `off` to `on` at 20 msec, back to `off` at 30
+ * msec, and to `on` again at 60 msec, using the given transition.
+ */
+class Controller extends Reactor {
+  off = new Mode(this);
+
+  on = new Mode(this);
+
+  tick = new Timer(this, 0, TimeValue.msec(10));
+
+  blinker!: Blinker;
+
+  offTicks = new Array<number>();
+
+  blinks = new Array<number>();
+
+  constructor(parent: Reactor, reentry: Transition) {
+    super(parent);
+    const offTicks = this.offTicks;
+    this.addReaction(
+      [this.tick],
+      [this.switchable(this.off), this.switchable(this.on)],
+      function (this, off, on) {
+        switch (this.util.getElapsedLogicalTime().toMilliseconds()) {
+          case 20:
+            on.set();
+            break;
+          case 30:
+            off.set(Transition.HISTORY);
+            break;
+          case 60:
+            on.set(reentry);
+            break;
+        }
+      }
+    );
+    this.inMode(this.off, () => {
+      this.addReaction([this.tick], [], function (this) {
+        offTicks.push(this.util.getElapsedLogicalTime().toMilliseconds());
+      });
+    });
+    this.inMode(this.on, () => {
+      this.blinker = new Blinker(this, this.blinks);
+    });
+  }
+}
+
+class Main extends App {
+  controller: Controller;
+
+  constructor(reentry: Transition, success: () => void, fail: () => void) {
+    super(TimeValue.msec(72), false, true, success, fail);
+    this.controller = new Controller(this, reentry);
+  }
+}
+
+describe("Modes", () => {
+  it("only execute the reactions of the current mode", (done) => {
+    const main = new Main(
+      Transition.HISTORY,
+      () => {
+        expect(main.controller.offTicks).toEqual([0, 10, 20, 40, 50, 60]);
+        done();
+      },
+      () => {
+        done(new Error("Unexpected failure."));
+      }
+    );
+    main._start();
+  });
+
+  it("resume pending events on history transitions", (done) => {
+    const main = new Main(
+      Transition.HISTORY,
+      () => {
+        // The blink due at 33 msec had 3 msec remaining when the mode was
+        // left at 30 msec.
+        expect(main.controller.blinks).toEqual([21, 25, 29, 63, 67, 71]);
+        done();
+      },
+      () => {
+        done(new Error("Unexpected failure."));
+      }
+    );
+    main._start();
+  });
+
+  it("restart timers on reset transitions", (done) => {
+    const main = new Main(
+      Transition.RESET,
+      () => {
+        expect(main.controller.blinks).toEqual([21, 25, 29, 61, 65, 69]);
+        done();
+      },
+      () => {
+        done(new Error("Unexpected failure."));
+      }
+    );
+    main._start();
+  });
+
+  it("can be switched at startup", async () => {
+    class Early extends App {
+      first = new Mode(this);
+
+      second = new Mode(this);
+
+      tick = new Timer(this, TimeValue.msec(10), 0);
+
+      log = new Array<string>();
+
+      constructor() {
+        super(undefined, false, true);
+        const log = this.log;
+        this.addReaction(
+          [this.startup],
+          [this.switchable(this.second)],
+          function (this, second) {
+            second.set();
+          }
+        );
+        this.inMode(this.first, () => {
+          this.addReaction([this.tick], [], function (this) {
+            log.push("first");
+          });
+        });
+        this.inMode(this.second, () => {
+          this.addReaction([this.tick], [], function (this) {
+            log.push("second");
+          });
+        });
+      }
+    }
+    const app = new Early();
+    await app.run();
+    expect(app.log).toEqual(["second"]);
+  });
+
+  it("cannot be declared within one another", () => {
+    class Nested extends Reactor {
+      a = new Mode(this);
+
+      b = new Mode(this);
+
+      constructor(parent: Reactor) {
+        super(parent);
+        this.inMode(this.a, () => {
+          this.inMode(this.b, () => undefined);
+        });
+      }
+    }
+    expect(() => new Nested(new App())).toThrowError(
+      "Modes cannot be declared within one another."
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import {App, Bank, Log, Reactor} from "../src/core/internal";
+
+class Leaf extends Reactor {}
+
+class Member extends Reactor {
+  index: number;
+
+  child: Leaf;
+
+  constructor(parent: Reactor, onConstruct?: (member: Member) => void) {
+    super(parent);
+    this.index = this.getBankIndex();
+    this.child = new Leaf(this);
+    onConstruct?.(this);
+  }
+}
+
+class Host extends App {
+  bank: Bank<Member, [Reactor, ((member: Member) => void)?]>;
+
+  constructor(onConstruct?: (member: Member) => void) {
+    super();
+    this.bank = new Bank(this, 3, Member, this, onConstruct);
+  }
+}
+
+describe("Multiple apps in one process", () => {
+  it("assign bank indices per app", () => {
+    const inner = new Array<Host>();
+    const outer = new Host((member) => {
+      // Construct another app in the middle of constructing the bank.
+      if (member.index === 1) {
+        inner.push(new Host());
+      }
+    });
+    expect(outer.bank.all().map((m) => m.index)).toEqual([0, 1, 2]);
+    expect(inner[0].bank.all().map((m) => m.index)).toEqual([0, 1, 2]);
+    expect(outer.bank.get(1).child.getBankIndex()).toBe(-1);
+    expect(outer.getBankIndex()).toBe(-1);
+  });
+
+  it("do not leak bank indices after a failed construction", () => {
+    const app = new App();
+    expect(() => {
+      new Bank(app, 2, Member, app, (member: Member) => {
+        if (member.index === 1) {
+          throw new Error("Construction failed.");
+        }
+      });
+    }).toThrowError("Construction failed.");
+    expect(new Member(app).index).toBe(-1);
+  });
+
+  it("have log levels of their own", () => {
+    Log.setLevel(Log.LogLevel.ERROR);
+    const verbose = new App();
+    const quiet = new App();
+    verbose.setLogLevel(Log.LogLevel.DEBUG);
+    expect(verbose._getLogger().level).toBe("debug");
+    expect(quiet._getLogger().level).toBe("error");
+    expect(new Leaf(verbose)._getLogger().level).toBe("debug");
+
+    // The global log level does not affect apps with a log level of their own.
+    Log.setLevel(Log.LogLevel.WARN);
+    expect(verbose._getLogger().level).toBe("debug");
+    expect(quiet._getLogger().level).toBe("warn");
+    Log.setLevel(Log.LogLevel.ERROR);
+  });
+
+  it("log without walking up the hierarchy", () => {
+    const app = new Host();
+    const member = app.bank.get(0);
+    const lookup = jest.spyOn(member, "_getLogger");
+    app.setLogLevel(Log.LogLevel.DEBUG);
+    expect(member.child._getLogger().level).toBe("debug");
+    Log.debug(member.child, () => "Logged on behalf of a leaf.");
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+import {mkdtempSync, rmSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  App,
+  FederatePortAction,
+  InPort,
+  NetworkReceiver,
+  Origin,
+  OutPort,
+  Reactor,
+  Tag,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+/**
+ * Reactor that sends a value after one second, which takes the given amount
+ * of physical time to produce.
+ */
+class Sensor extends Reactor {
+  t = new Timer(this, TimeValue.sec(1), 0);
+
+  out = new OutPort<string>(this);
+
+  constructor(parent: Reactor, clock: VirtualClock, lag: TimeValue) {
+    super(parent);
+    this.addReaction([this.t], [this.writable(this.out)], function (this, out) {
+      clock.advance(lag);
+      out.set("reading");
+    });
+  }
+}
+
+class Fusion extends Reactor {
+  in = new InPort<string>(this);
+
+  received = new Array<Tag>();
+
+  constructor(parent: Reactor) {
+    super(parent);
+    const received = this.received;
+    this.addReaction([this.in], [this.in], function (this) {
+      received.push(this.util.getCurrentTag());
+    });
+  }
+}
+
+class Pipeline extends App {
+  sensor: Sensor;
+
+  fusion = new Fusion(this);
+
+  constructor(
+    clock: VirtualClock,
+    fast: boolean,
+    after: TimeValue | undefined,
+    success: () => void
+  ) {
+    super(TimeValue.sec(3), false, fast, success, () => undefined, clock);
+    this.sensor = new Sensor(this, clock, TimeValue.msec(300));
+    this._connect(this.sensor.out, this.fusion.in, {physical: true, after});
+  }
+}
+
+/**
+ * Network receiver of a physical connection from another federate, which
+ * relays the values it receives to its output.
+ */
+class Inbound extends NetworkReceiver<string> {
+  action = new FederatePortAction<string>(this, Origin.physical);
+
+  out = new OutPort<string>(this);
+
+  constructor(parent: Reactor) {
+    super(parent, undefined);
+    this.registerNetworkInputAction(this.action);
+    this.addReaction(
+      [this.action],
+      [this.action, this.writable(this.out)],
+      function (this, action, out) {
+        out.set(action.get() ?? "");
+      }
+    );
+  }
+}
+
+class Remote extends App {
+  inbound = new Inbound(this);
+
+  fusion = new Fusion(this);
+
+  constructor(clock: VirtualClock, success: () => void) {
+    super(TimeValue.sec(3), false, false, success, () => undefined, clock);
+    this._connect(this.inbound.out, this.fusion.in);
+  }
+}
+
+describe("Physical connections", () => {
+  it("tag values with the physical time of arrival", (done) => {
+    const clock = new VirtualClock(TimeValue.zero());
+    const app = new Pipeline(clock, false, undefined, () => {
+      expect(app.fusion.received).toEqual([new Tag(TimeValue.msec(1300), 1)]);
+      done();
+    });
+    app._start();
+    clock.advanceTo(TimeValue.sec(1));
+    clock.advanceTo(TimeValue.sec(3));
+  });
+
+  it("add the delay of the connection to the time of arrival", (done) => {
+    const clock = new VirtualClock(TimeValue.zero());
+    const app = new Pipeline(clock, false, TimeValue.msec(100), () => {
+      expect(app.fusion.received).toEqual([new Tag(TimeValue.msec(1400))]);
+      done();
+    });
+    app._start();
+    clock.advanceTo(TimeValue.sec(1));
+    clock.advanceTo(TimeValue.sec(3));
+  });
+
+  it("do not tag values earlier than the current tag", (done) => {
+    const clock = new VirtualClock(TimeValue.zero());
+    const app = new Pipeline(clock, true, undefined, () => {
+      // Logical time is ahead of physical time in fast execution.
+      expect(app.fusion.received).toEqual([new Tag(TimeValue.sec(1), 1)]);
+      done();
+    });
+    app._start();
+  });
+
+  it("tag values from other federates with the time of arrival", (done) => {
+    const clock = new VirtualClock(TimeValue.zero());
+    const app = new Remote(clock, () => {
+      // The tag intended by the sender is ignored.
+      expect(app.fusion.received).toEqual([new Tag(TimeValue.msec(1300), 1)]);
+      done();
+    });
+    app._start();
+    clock.advanceTo(TimeValue.msec(1300));
+    app.inbound.handleTimedMessage("reading", new Tag(TimeValue.sec(1)));
+    clock.advanceTo(TimeValue.sec(3));
+  });
+
+  it("can be recorded and replayed", (done) => {
+    const dir = mkdtempSync(join(tmpdir(), "reactor-ts-physical-"));
+    const file = join(dir, "recording.jsonl");
+    const clock = new VirtualClock(TimeValue.zero());
+    const recorded = new Pipeline(clock, false, undefined, () => {
+      // Replay executes in fast mode, which would otherwise tag the value
+      // with the time at which it was sent.
+      const replayed = new Pipeline(
+        new VirtualClock(TimeValue.zero()),
+        false,
+        undefined,
+        () => {
+          expect(replayed.fusion.received).toEqual(recorded.fusion.received);
+          rmSync(dir, {recursive: true, force: true});
+          done();
+        }
+      );
+      replayed.enableReplay(file);
+      replayed._start();
+    });
+    recorded.enableRecording(file);
+    recorded._start();
+    clock.advanceTo(TimeValue.sec(1));
+    clock.advanceTo(TimeValue.sec(3));
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  Reactor,
+  InPort,
+  OutPort,
+  OutMultiPort,
+  Tag,
+  TimeValue
+} from "../src/core/internal";
+import {ReactorTestBench} from "../src/share/ReactorTestBench";
+
+class Adder extends Reactor {
+  in1 = new InPort<number>(this);
+
+  in2 = new InPort<number>(this);
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor) {
+    super(parent);
+    this.addReaction(
+      [this.in1, this.in2],
+      [this.in1, this.in2, this.writable(this.out)],
+      function (this, in1, in2, out) {
+        out.set((in1.get() ?? 0) + (in2.get() ?? 0));
+      }
+    );
+  }
+}
+
+class Splitter extends Reactor {
+  in = new InPort<number[]>(this);
+
+  out = new OutMultiPort<number>(this, 2);
+
+  constructor(parent: Reactor) {
+    super(parent);
+    this.addReaction(
+      [this.in],
+      [this.in, this.allWritable(this.out)],
+      function (this, inp, out) {
+        const values = inp.get();
+        if (values !== undefined) {
+          out.set(0, values[0]);
+          out.set(1, values[1]);
+        }
+      }
+    );
+  }
+}
+
+const at = (msec: number, microstep = 0): Tag =>
+  new Tag(TimeValue.msec(msec), microstep);
+
+describe("ReactorTestBench", () => {
+  it("records outputs at scripted tags", async () => {
+    const bench = new ReactorTestBench((parent) => new Adder(parent));
+    bench
+      .setInput(bench.dut.in1, 1, at(0))
+      .setInput(bench.dut.in2, 2, at(0))
+      .setInput(bench.dut.in1, 10, at(5, 2))
+      .setInput(bench.dut.in2, 20, at(3));
+    await bench.run();
+
+    bench.expectOutput(bench.dut.out, 3, at(0));
+    bench.expectOutput(bench.dut.out, 20, at(3));
+    bench.expectOutput(bench.dut.out, 10, at(5, 2));
+    bench.expectAbsent(bench.dut.out, at(5));
+    expect(bench.getOutputs(bench.dut.out).length).toBe(3);
+    expect(bench.getOutput(bench.dut.out, at(3))).toBe(20);
+  });
+
+  it("reports mismatches with fully qualified port names", async () => {
+    const bench = new ReactorTestBench((parent) => new Adder(parent));
+    bench.setInput(bench.dut.in1, 1, at(1));
+    await bench.run();
+
+    expect(() => {
+      bench.expectOutput(bench.dut.out, 2, at(1));
+    }).toThrowError(
+      "Expected reactorTestBench.dut.out to have value 2 at tag " +
+        `${at(1)}, but it had value 1.`
+    );
+    expect(() => {
+      bench.expectOutput(bench.dut.out, 1, at(2));
+    }).toThrowError(
+      `Expected reactorTestBench.dut.out to have value 1 at tag ${at(2)}, but it was absent.`
+    );
+    expect(() => {
+      bench.expectAbsent(bench.dut.out, at(1));
+    }).toThrowError(
+      `Expected reactorTestBench.dut.out to be absent at tag ${at(1)}, but it had value 1.`
+    );
+  });
+
+  it("records the channels of multiports", async () => {
+    const bench = new ReactorTestBench((parent) => new Splitter(parent));
+    bench.setInput(bench.dut.in, [4, 2], at(7));
+    await bench.run();
+
+    bench.expectOutput(bench.dut.out.channel(0), 4, at(7));
+    bench.expectOutput(bench.dut.out.channel(1), 2, at(7));
+  });
+
+  it("rejects inputs scripted after the start of execution", async () => {
+    const bench = new ReactorTestBench((parent) => new Adder(parent));
+    await bench.run();
+
+    expect(() => bench.setInput(bench.dut.in1, 1, at(1))).toThrowError(
+      "Cannot script inputs after execution has started."
+    );
+  });
+});
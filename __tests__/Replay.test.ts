@@ -0,0 +1,117 @@
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  type RecordedEvent,
+  Action,
+  App,
+  Origin,
+  TimeValue,
+  applyCommandLineArgs
+} from "../src/core/internal";
+
+class Sensor extends App {
+  reading = new Action<number>(this, Origin.physical);
+
+  constructor(
+    values: number[],
+    log: Array<[string, number | undefined]>,
+    success: () => void,
+    fail: () => void
+  ) {
+    super(TimeValue.msec(100), true, false, success, fail);
+    this.addReaction(
+      [this.startup],
+      [this.schedulable(this.reading)],
+      function (this, reading) {
+        values.forEach((value, i) => {
+          setTimeout(
+            () => {
+              reading.schedule(0, value);
+            },
+            10 * (i + 1)
+          );
+        });
+      }
+    );
+    this.addReaction([this.reading], [this.reading], function (this, reading) {
+      log.push([this.util.getElapsedLogicalTime().toString(), reading.get()]);
+    });
+  }
+}
+
+describe("Record and replay", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "reactor-ts-replay-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  it("reproduces the events of physical actions", async () => {
+    const file = join(dir, "recording.jsonl");
+    const recorded = new Array<[string, number | undefined]>();
+    await new Promise<void>((resolve, reject) => {
+      const app = new Sensor([1, 2, 3], recorded, resolve, reject);
+      app.enableRecording(file);
+      app._start();
+    });
+    expect(recorded.map(([, value]) => value)).toEqual([1, 2, 3]);
+    const lines = readFileSync(file, "utf8").trim().split("\n");
+    expect(lines.length).toBe(3);
+    const first = JSON.parse(lines[0]) as RecordedEvent;
+    expect(first.action).toBe("sensor.reading");
+    expect(first.value).toEqual({data: 1});
+
+    // Physical actions scheduled during replay are ignored.
+    const replayed = new Array<[string, number | undefined]>();
+    await new Promise<void>((resolve, reject) => {
+      const app = new Sensor([4, 5], replayed, resolve, reject);
+      app.enableReplay(file);
+      app._start();
+    });
+    expect(replayed).toEqual(recorded);
+  });
+
+  it("can be enabled from the command line", async () => {
+    const file = join(dir, "recording.jsonl");
+    const recorded = new Array<[string, number | undefined]>();
+    await new Promise<void>((resolve, reject) => {
+      const app = new Sensor([1, 2], recorded, resolve, reject);
+      applyCommandLineArgs(app, {record: file});
+      app._start();
+    });
+    expect(recorded).toHaveLength(2);
+    const replayed = new Array<[string, number | undefined]>();
+    await new Promise<void>((resolve, reject) => {
+      const app = new Sensor([], replayed, resolve, reject);
+      applyCommandLineArgs(app, {replay: file});
+      app._start();
+    });
+    expect(replayed).toEqual(recorded);
+  });
+
+  it("rejects recordings of unknown actions", () => {
+    const file = join(dir, "recording.jsonl");
+    const event: RecordedEvent = {
+      action: "sensor.missing",
+      tag: {time: [0, 1000], microstep: 0},
+      value: {data: 1}
+    };
+    writeFileSync(file, JSON.stringify(event) + "\n");
+    const app = new Sensor(
+      [],
+      [],
+      () => undefined,
+      () => undefined
+    );
+    expect(() => {
+      app.enableReplay(file);
+    }).toThrowError(
+      "Recording refers to unknown physical action sensor.missing."
+    );
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  App,
+  Bank,
+  FaultPolicy,
+  InMultiPort,
+  InPort,
+  OutMultiPort,
+  OutPort,
+  Reactor,
+  Timer,
+  TimeValue
+} from "../src/core/internal";
+
+/**
+ * Reactor that sends a label on each of its output channels every second.
+ */
+class Scatter extends Reactor {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  out: OutMultiPort<string>;
+
+  constructor(parent: Reactor, width: number) {
+    super(parent);
+    this.out = new OutMultiPort<string>(this, width);
+    let tick = 0;
+    this.addReaction(
+      [this.t],
+      [this.allWritable(this.out)],
+      function (this, out) {
+        for (let i = 0; i < out.width(); i++) {
+          out.set(i, `${tick}.${i}`);
+        }
+        tick++;
+      }
+    );
+  }
+}
+
+class Gather extends Reactor {
+  in: InMultiPort<string>;
+
+  received = new Array<Array<string | undefined>>();
+
+  constructor(parent: Reactor, width: number) {
+    super(parent);
+    this.in = new InMultiPort<string>(this, width);
+    const received = this.received;
+    this.addReaction([this.in], [this.in], function (this, inp) {
+      received.push(inp.values());
+    });
+  }
+}
+
+class Single extends Reactor {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor) {
+    super(parent);
+    let tick = 0;
+    this.addReaction([this.t], [this.writable(this.out)], function (this, out) {
+      out.set(tick++);
+    });
+  }
+}
+
+class Worker extends Reactor {
+  in = new InPort<number>(this);
+
+  constructor(parent: Reactor, log: string[]) {
+    super(parent);
+    this.addReaction([this.in], [this.in], function (this, inp) {
+      log.push(`${inp.get()} at ${this.getBankIndex()}`);
+    });
+  }
+}
+
+/**
+ * App that changes the width of a scatter-gather connection at the given
+ * times, and optionally fails right after, so that the change is rolled back.
+ */
+class Fan extends App {
+  t = new Timer(this, TimeValue.sec(1), TimeValue.sec(1));
+
+  scatter = new Scatter(this, 2);
+
+  gather = new Gather(this, 2);
+
+  constructor(widths: number[], fail = false) {
+    super(TimeValue.sec(3), false, true);
+    this.setFaultPolicy(FaultPolicy.REPORT);
+    this._connectMulti([this.scatter.out], [this.gather.in], false);
+    const self = this;
+    let step = 0;
+    this.addMutation([this.t], [], function (this) {
+      const width = widths[step++];
+      if (width === undefined) {
+        return;
+      }
+      this.resizeMultiPort(self.scatter.out, width);
+      this.resizeMultiPort(self.gather.in, width, function (this, channel, i) {
+        this.connect(
+          self.scatter.out.channel(i).asConnectable(),
+          channel.asConnectable()
+        );
+      });
+      if (fail) {
+        throw new Error("Failed after resizing.");
+      }
+    });
+  }
+}
+
+/**
+ * App that changes the number of members of a bank at the given times, and
+ * optionally fails right after, so that the change is rolled back.
+ */
+class Pool extends App {
+  t = new Timer(this, TimeValue.sec(1), TimeValue.sec(1));
+
+  log = new Array<string>();
+
+  single = new Single(this);
+
+  workers = new Bank(this, 2, Worker, this, this.log);
+
+  indices = new Array<number[]>();
+
+  constructor(widths: number[], fail = false) {
+    super(TimeValue.sec(3), false, true);
+    this.setFaultPolicy(FaultPolicy.REPORT);
+    for (const worker of this.workers.all()) {
+      this._connect(this.single.out, worker.in);
+    }
+    const self = this;
+    let step = 0;
+    this.addMutation([this.t], [], function (this) {
+      const width = widths[step++];
+      if (width === undefined) {
+        return;
+      }
+      this.resizeBank(self.workers, width, function (this, member) {
+        this.connect(
+          self.single.out.asConnectable(),
+          member.in.asConnectable()
+        );
+      });
+      self.indices.push(self.workers.all().map((w) => w.getBankIndex()));
+      if (fail) {
+        throw new Error("Failed after resizing.");
+      }
+    });
+  }
+}
+
+describe("Resizing", () => {
+  it("grow and shrink multiports", async () => {
+    const app = new Fan([3, 1]);
+    const report = await app.run();
+    expect(report.errored).toBe(false);
+    expect(app.gather.received).toEqual([
+      ["0.0", "0.1"],
+      ["1.0", "1.1", "1.2"],
+      ["2.0"],
+      ["3.0"]
+    ]);
+  });
+
+  it("grow and shrink banks", async () => {
+    const app = new Pool([4, 1]);
+    const report = await app.run();
+    expect(report.errored).toBe(false);
+    expect(app.indices).toEqual([[0, 1, 2, 3], [0]]);
+    // Removed members are only torn down at the end of the tag.
+    expect([...app.log].sort()).toEqual([
+      "0 at 0",
+      "0 at 1",
+      "1 at 0",
+      "1 at 1",
+      "1 at 2",
+      "1 at 3",
+      "2 at 0",
+      "2 at 1",
+      "2 at 2",
+      "2 at 3",
+      "3 at 0"
+    ]);
+  });
+
+  it("restore multiports if resizing them is rolled back", async () => {
+    const app = new Fan([1, 3], true);
+    const report = await app.run();
+    expect(report.errored).toBe(true);
+    expect(app.scatter.out.width()).toBe(2);
+    expect(app.gather.in.width()).toBe(2);
+    expect(app.gather.received).toEqual([
+      ["0.0", "0.1"],
+      ["1.0", "1.1"],
+      ["2.0", "2.1"],
+      ["3.0", "3.1"]
+    ]);
+  });
+
+  it("restore banks if resizing them is rolled back", async () => {
+    const app = new Pool([1, 4], true);
+    const report = await app.run();
+    expect(report.errored).toBe(true);
+    expect(app.indices).toEqual([[0], [0, 1, 2, 3]]);
+    expect(app.workers.all().map((w) => w.getBankIndex())).toEqual([0, 1]);
+    expect([...app.log].sort()).toEqual([
+      "0 at 0",
+      "0 at 1",
+      "1 at 0",
+      "1 at 1",
+      "2 at 0",
+      "2 at 1",
+      "3 at 0",
+      "3 at 1"
+    ]);
+  });
+
+  it("only resize multiports in scope", async () => {
+    class Holder extends Reactor {
+      scatter = new Scatter(this, 2);
+    }
+    class Outsider extends App {
+      holder = new Holder(this);
+
+      constructor() {
+        super(undefined, false, true);
+        const self = this;
+        this.addMutation([this.startup], [], function (this) {
+          this.resizeMultiPort(self.holder.scatter.out, 3);
+        });
+      }
+    }
+    const report = await new Outsider().run();
+    expect(report.errored).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  App,
+  Tag,
+  TerminationReason,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+interface Stopper {
+  requestStop: () => void;
+  requestStopAfter: (delay: TimeValue) => void;
+  requestErrorStop: (message?: string) => void;
+}
+
+class Ticker extends App {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  constructor(
+    timeout: TimeValue | undefined,
+    keepAlive: boolean,
+    onTick: (util: Stopper, tick: number) => void
+  ) {
+    super(
+      timeout,
+      keepAlive,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    let tick = 0;
+    this.addReaction([this.t], [], function (this) {
+      onTick(this.util, tick++);
+    });
+  }
+}
+
+/**
+ * Ticker that requests to stop once it is shutting down.
+ */
+class Lingerer extends Ticker {
+  constructor(timeout: TimeValue) {
+    super(timeout, false, () => undefined);
+    this.addReaction([this.shutdown], [], function (this) {
+      this.util.requestStop();
+    });
+  }
+}
+
+describe("App.run", () => {
+  it("reports a timeout", async () => {
+    const report = await new Ticker(
+      TimeValue.sec(5),
+      false,
+      () => undefined
+    ).run();
+    expect(report.reason).toBe(TerminationReason.TIMEOUT);
+    expect(report.tag).toEqual(new Tag(TimeValue.sec(5), 0));
+    expect(report.errored).toBe(false);
+    expect(report.errorMessage).toBeUndefined();
+  });
+
+  it("reports an empty event queue", async () => {
+    const app = new App();
+    const report = await app.run();
+    expect(report.reason).toBe(TerminationReason.EMPTY_QUEUE);
+  });
+
+  it("reports a stop requested by a reaction", async () => {
+    const app = new Ticker(undefined, false, (util, tick) => {
+      if (tick === 2) {
+        util.requestStop();
+      }
+    });
+    const report = await app.run();
+    expect(report.reason).toBe(TerminationReason.STOP);
+    expect(report.tag).toEqual(new Tag(TimeValue.sec(2), 1));
+  });
+
+  it("reports a stop requested from outside", async () => {
+    const app = new Ticker(undefined, true, () => undefined);
+    const running = app.run();
+    setImmediate(() => {
+      app.stop();
+    });
+    const report = await running;
+    expect(report.reason).toBe(TerminationReason.STOP);
+    expect(report.errored).toBe(false);
+  });
+
+  it("reports a timeout if a stop request is later", async () => {
+    const app = new Ticker(TimeValue.sec(5), false, (util, tick) => {
+      if (tick === 0) {
+        util.requestStopAfter(TimeValue.sec(10));
+      }
+    });
+    const report = await app.run();
+    expect(report.reason).toBe(TerminationReason.TIMEOUT);
+    expect(report.tag).toEqual(new Tag(TimeValue.sec(5), 0));
+  });
+
+  it("reports a timeout if a stop is requested at the timeout", async () => {
+    const report = await new Lingerer(TimeValue.sec(5)).run();
+    expect(report.reason).toBe(TerminationReason.TIMEOUT);
+    expect(report.tag).toEqual(new Tag(TimeValue.sec(5), 0));
+  });
+
+  it("reports a stop requested because of an error", async () => {
+    const app = new Ticker(undefined, false, (util, tick) => {
+      if (tick === 2) {
+        util.requestErrorStop("Out of range.");
+      }
+    });
+    const report = await app.run();
+    expect(report.reason).toBe(TerminationReason.ERROR);
+    expect(report.errored).toBe(true);
+    expect(report.errorMessage).toBe("Out of range.");
+  });
+
+  it("reports an exception that aborted execution", async () => {
+    const ticks = new Array<number>();
+    const app = new Ticker(TimeValue.sec(5), false, (_, tick) => {
+      ticks.push(tick);
+      if (tick === 1) {
+        throw new Error("Broken sensor.");
+      }
+    });
+    const report = await app.run();
+    expect(report.reason).toBe(TerminationReason.ERROR);
+    expect(report.errored).toBe(true);
+    expect(report.errorMessage).toContain("Error: Broken sensor.");
+    expect(report.tag).toEqual(new Tag(TimeValue.sec(1), 0));
+    expect(ticks).toEqual([0, 1]);
+  });
+
+  it("can only be invoked once", async () => {
+    const app = new Ticker(TimeValue.sec(1), false, () => undefined);
+    await app.run();
+    await expect(app.run()).rejects.toThrowError(
+      "Cannot run an app that has already started."
+    );
+  });
+
+  it("cannot be stopped before it starts", () => {
+    const app = new App();
+    expect(() => {
+      app.stop();
+    }).toThrowError("Cannot stop an app before execution has started.");
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  App,
+  FaultPolicy,
+  InPort,
+  type MutationSandbox,
+  OutPort,
+  Reactor,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+class Counter extends Reactor {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor) {
+    super(parent);
+    let count = 0;
+    this.addReaction([this.t], [this.writable(this.out)], function (this, out) {
+      out.set(count++);
+    });
+  }
+}
+
+/**
+ * Reactor that samples its input on its own timer, so its reaction must
+ * execute after the reaction that writes to the input.
+ */
+class Monitor extends Reactor {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  in = new InPort<number>(this);
+
+  constructor(parent: Reactor, log: Array<number | undefined>) {
+    super(parent);
+    this.addReaction([this.t], [this.in], function (this, inp) {
+      log.push(inp.get());
+    });
+  }
+}
+
+class Relay extends Reactor {
+  in = new InPort<number>(this);
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor, log: Array<number | undefined>) {
+    super(parent);
+    this.addReaction(
+      [this.in],
+      [this.in, this.writable(this.out)],
+      function (this, inp, out) {
+        log.push(inp.get());
+        out.set(inp.get() ?? 0);
+      }
+    );
+  }
+}
+
+/**
+ * Reactor with a reaction that feeds the output of a contained relay back
+ * into its input without delay.
+ */
+class Loop extends Reactor {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  relay: Relay;
+
+  constructor(parent: Reactor, log: Array<number | undefined>) {
+    super(parent);
+    this.relay = new Relay(this, log);
+    this.addReaction(
+      [this.t, this.relay.out],
+      [this.relay.out, this.writable(this.relay.in)],
+      function (this, out, inp) {
+        inp.set(out.get() ?? 0);
+      }
+    );
+  }
+}
+
+class Host extends App {
+  counter = new Counter(this);
+
+  log = new Array<number | undefined>();
+
+  constructor(mutate: (mutation: MutationSandbox, app: Host) => void) {
+    super(
+      TimeValue.sec(2),
+      false,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    this.setFaultPolicy(FaultPolicy.REPORT);
+    const self = this;
+    this.addMutation([this.startup], [], function (this) {
+      mutate(this, self);
+    });
+  }
+}
+
+describe("Priorities of reactions added at runtime", () => {
+  it("order new reactions after the reactions they depend on", async () => {
+    const app = new Host((mutation, app) => {
+      const monitor = new Monitor(mutation.getReactor(), app.log);
+      mutation.connect(
+        app.counter.out.asConnectable(),
+        monitor.in.asConnectable()
+      );
+    });
+    const report = await app.run();
+    expect(report.errored).toBe(false);
+    expect(app.log).toEqual([0, 1, 2]);
+  });
+
+  it("reject cycles introduced by new reactions", async () => {
+    const app = new Host((mutation, app) => {
+      const relay = new Relay(mutation.getReactor(), app.log);
+      mutation.connect(
+        app.counter.out.asConnectable(),
+        relay.in.asConnectable()
+      );
+      new Loop(mutation.getReactor(), app.log);
+    });
+    const report = await app.run();
+    expect(report.errored).toBe(true);
+    expect(report.errorMessage).toContain(
+      "Changes made by host[M1] introduce a cycle in the reaction graph."
+    );
+    // Neither the new reactors nor the new connection remain.
+    expect(app.log).toEqual([]);
+  });
+
+  it("reject cycles introduced by new connections", async () => {
+    const app = new Host((mutation, app) => {
+      const [zero, first, second] = [0, 1, 2].map(
+        () => new Relay(mutation.getReactor(), app.log)
+      );
+      mutation.connect(
+        app.counter.out.asConnectable(),
+        zero.in.asConnectable()
+      );
+      mutation.connect(first.out.asConnectable(), second.in.asConnectable());
+      mutation.connect(second.out.asConnectable(), first.in.asConnectable());
+    });
+    const report = await app.run();
+    expect(report.errored).toBe(true);
+    expect(report.errorMessage).toContain("Reason is");
+    expect(app.log).toEqual([]);
+  });
+
+  it("only consult the reactors affected by the changes", async () => {
+    class Busy extends Host {
+      bystander = new Relay(this, new Array<number | undefined>());
+    }
+    const app = new Busy((mutation, app) => {
+      const monitor = new Monitor(mutation.getReactor(), app.log);
+      mutation.connect(
+        app.counter.out.asConnectable(),
+        monitor.in.asConnectable()
+      );
+    });
+    const affected = jest.spyOn(app.counter, "_getDependencies");
+    const unaffected = jest.spyOn(app.bystander, "_getDependencies");
+    const report = await app.run();
+    expect(report.errored).toBe(false);
+    expect(app.log).toEqual([0, 1, 2]);
+    expect(affected).toHaveBeenCalled();
+    expect(unaffected).not.toHaveBeenCalled();
+  });
+});
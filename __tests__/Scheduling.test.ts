@@ -0,0 +1,95 @@
+import {
+  App,
+  InPort,
+  OutPort,
+  Reactor,
+  SchedulingPolicy,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+class Task extends Reactor {
+  t = new Timer(this, 0, 0);
+
+  in = new InPort<boolean>(this);
+
+  out = new OutPort<boolean>(this);
+
+  constructor(
+    parent: Reactor,
+    name: string,
+    log: string[],
+    follower: boolean,
+    deadline?: TimeValue
+  ) {
+    super(parent);
+    this.addReaction(
+      [follower ? this.in : this.t],
+      [this.writable(this.out)],
+      function (this, out) {
+        log.push(name);
+        out.set(true);
+      },
+      deadline
+    );
+  }
+}
+
+class Pipeline extends App {
+  log = new Array<string>();
+
+  lax = new Task(this, "lax", this.log, false);
+
+  medium = new Task(this, "medium", this.log, false, TimeValue.sec(2));
+
+  sensor = new Task(this, "sensor", this.log, false);
+
+  actuator = new Task(this, "actuator", this.log, true, TimeValue.sec(1));
+
+  constructor(policy: SchedulingPolicy | undefined, success: () => void) {
+    super(
+      undefined,
+      false,
+      true,
+      success,
+      () => undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    if (policy !== undefined) {
+      this.setSchedulingPolicy(policy);
+    }
+    this._connect(this.sensor.out, this.actuator.in);
+  }
+}
+
+describe("Scheduling policies", () => {
+  it("execute independent reactions in a fixed order by default", (done) => {
+    const app = new Pipeline(undefined, () => {
+      expect(app.log).toEqual(["lax", "medium", "sensor", "actuator"]);
+      done();
+    });
+    app._start();
+  });
+
+  it("execute reactions with the earliest deadline first", (done) => {
+    const app = new Pipeline(SchedulingPolicy.EDF, () => {
+      // The sensor inherits the deadline of the actuator.
+      expect(app.log).toEqual(["sensor", "actuator", "medium", "lax"]);
+      done();
+    });
+    app._start();
+  });
+
+  it("cannot be changed once execution has started", (done) => {
+    const app = new Pipeline(undefined, () => {
+      expect(() => {
+        app.setSchedulingPolicy(SchedulingPolicy.EDF);
+      }).toThrowError(
+        "Cannot change the scheduling policy of an app that has already started."
+      );
+      done();
+    });
+    app._start();
+  });
+});
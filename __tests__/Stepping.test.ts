@@ -0,0 +1,121 @@
+import {
+  type StepReport,
+  App,
+  Tag,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+class Ticker extends App {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  ticks = 0;
+
+  constructor(success: () => void, fail: () => void) {
+    super(
+      TimeValue.sec(5),
+      false,
+      true,
+      success,
+      fail,
+      new VirtualClock(TimeValue.zero())
+    );
+    const self = this;
+    this.addReaction([this.startup], [], function (this) {
+      // Nothing to do.
+    });
+    this.addReaction([this.t], [], function (this) {
+      self.ticks++;
+    });
+  }
+}
+
+const at = (seconds: number): Tag => new Tag(TimeValue.sec(seconds), 0);
+
+describe("Stepping", () => {
+  it("advances one tag at a time while paused", async () => {
+    let finished = false;
+    const app = new Ticker(
+      () => {
+        finished = true;
+      },
+      () => undefined
+    );
+    app.pause();
+    app._start();
+    expect(app.isPaused()).toBe(true);
+
+    const first = await app.step();
+    expect(first?.tag).toEqual(at(1));
+    expect(first?.reactions).toEqual(["ticker[R1]"]);
+    expect(app.ticks).toBe(2);
+
+    // Nothing happens until the next step is requested.
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(app.ticks).toBe(2);
+
+    const second = await app.step();
+    expect(second?.tag).toEqual(at(2));
+    expect(app.ticks).toBe(3);
+    expect(finished).toBe(false);
+  });
+
+  it("steps until a given tag", async () => {
+    const app = new Ticker(
+      () => undefined,
+      () => undefined
+    );
+    app.pause();
+    app._start();
+    const report = await app.stepUntil(new Tag(TimeValue.msec(3500), 0));
+    expect(report?.tag).toEqual(at(3));
+    expect(app.ticks).toBe(4);
+  });
+
+  it("reports the reactions of every tag", (done) => {
+    const reports = new Array<StepReport>();
+    const app = new Ticker(
+      () => {
+        expect(reports.map((r) => r.tag)).toEqual([0, 1, 2, 3, 4, 5].map(at));
+        // The startup tag includes the startup reaction and the first tick.
+        expect(reports[0].reactions).toEqual(["ticker[R0]", "ticker[R1]"]);
+        // The last tag includes the built-in shutdown mutation.
+        expect(reports[5].reactions).toEqual(["ticker[M0]", "ticker[R1]"]);
+        done();
+      },
+      () => undefined
+    );
+    app.onStep((report) => {
+      reports.push(report);
+    });
+    app._start();
+  });
+
+  it("resumes execution", (done) => {
+    const app = new Ticker(
+      () => {
+        expect(app.ticks).toBe(6);
+        done();
+      },
+      () => undefined
+    );
+    app.pause();
+    app._start();
+    void app.step().then(() => {
+      expect(app.ticks).toBe(2);
+      app.resume();
+      expect(app.isPaused()).toBe(false);
+    });
+  });
+
+  it("can only step while paused", async () => {
+    const app = new Ticker(
+      () => undefined,
+      () => undefined
+    );
+    await expect(app.step()).rejects.toThrowError(
+      "Cannot step an app that is not paused."
+    );
+  });
+});
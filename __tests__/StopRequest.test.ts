@@ -0,0 +1,138 @@
+import {
+  App,
+  Tag,
+  TerminationReason,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+/**
+ * App that ticks every second and requests to stop after the given delays,
+ * the first at startup and the others at subsequent ticks.
+ */
+class Ticker extends App {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  log = new Array<string>();
+
+  constructor(delays: Array<TimeValue | undefined>) {
+    super(
+      undefined,
+      false,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    const log = this.log;
+    let ticks = 0;
+    this.addReaction([this.t], [], function (this) {
+      log.push(`tick at ${this.util.getElapsedLogicalTime()}`);
+      if (ticks < delays.length) {
+        const delay = delays[ticks];
+        if (delay === undefined) {
+          this.util.requestStop();
+        } else {
+          this.util.requestStopAfter(delay);
+        }
+      }
+      ticks++;
+    });
+    this.addReaction([this.shutdown], [], function (this) {
+      log.push(`shutdown at ${this.util.getCurrentTag()}`);
+    });
+  }
+}
+
+/**
+ * App with a shutdown reaction that never completes.
+ */
+class Stuck extends App {
+  constructor(clock: VirtualClock, hanging: () => void) {
+    super(undefined, false, true, undefined, undefined, clock);
+    this.setShutdownGracePeriod(TimeValue.msec(100));
+    this.addReaction([this.startup], [], function (this) {
+      this.util.requestStopAt(
+        this.util.getCurrentTag().getLaterTag(TimeValue.sec(1))
+      );
+    });
+    this.addAsyncReaction([this.shutdown], [], async function (this) {
+      hanging();
+      await new Promise<void>(() => undefined);
+    });
+  }
+}
+
+/**
+ * App with a timeout that requests to stop at the given time at startup.
+ */
+class Overdue extends App {
+  constructor(timeout: TimeValue, stop: TimeValue) {
+    super(
+      timeout,
+      false,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    this.addReaction([this.startup], [], function (this) {
+      this.util.requestStopAt(this.util.getCurrentTag().getLaterTag(stop));
+    });
+  }
+}
+
+const at = (sec: number, microstep = 0): Tag =>
+  new Tag(TimeValue.sec(sec), microstep);
+
+describe("Stop requests", () => {
+  it("stop execution at a future tag", async () => {
+    const app = new Ticker([TimeValue.sec(2)]);
+    const report = await app.run();
+    expect(report.tag).toEqual(at(2));
+    expect(app.log).toEqual([
+      `tick at ${TimeValue.sec(0)}`,
+      `tick at ${TimeValue.sec(1)}`,
+      `tick at ${TimeValue.sec(2)}`,
+      `shutdown at ${at(2)}`
+    ]);
+  });
+
+  it("can bring the end of execution forward", async () => {
+    const app = new Ticker([TimeValue.sec(3), undefined]);
+    const report = await app.run();
+    expect(report.tag).toEqual(at(1, 1));
+  });
+
+  it("cannot postpone the end of execution", async () => {
+    const app = new Ticker([TimeValue.sec(1), TimeValue.sec(3)]);
+    const report = await app.run();
+    expect(report.tag).toEqual(at(1));
+  });
+
+  it("do not change the reason for stopping if they are ignored", async () => {
+    const report = await new Overdue(TimeValue.sec(5), TimeValue.sec(8)).run();
+    expect(report.tag).toEqual(at(5));
+    expect(report.reason).toBe(TerminationReason.TIMEOUT);
+  });
+});
+
+describe("Shutdown grace period", () => {
+  it("forces shutdown if shutdown reactions do not complete", async () => {
+    const clock = new VirtualClock(TimeValue.zero());
+    const app = new Stuck(clock, () => {
+      // Let the grace period elapse once the app is stuck.
+      setImmediate(() => {
+        clock.advance(TimeValue.msec(50));
+        clock.advance(TimeValue.msec(50));
+      });
+    });
+    const report = await app.run();
+    expect(report.tag).toEqual(at(1));
+    expect(report.errored).toBe(true);
+    expect(report.errorMessage).toBe(
+      `Shutdown was forced after a grace period of ${TimeValue.msec(100)}.`
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  Action,
+  App,
+  InPort,
+  Origin,
+  OutPort,
+  Reactor,
+  Tag,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+class Counter extends Reactor {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  out = new OutPort<number>(this);
+
+  constructor(parent: Reactor, log: string[]) {
+    super(parent);
+    let count = 0;
+    this.addReaction([this.t], [this.writable(this.out)], function (this, out) {
+      out.set(count++);
+    });
+    this.addTeardownHandler(() => {
+      log.push("counter torn down");
+    });
+  }
+}
+
+/**
+ * Reactor with a timer, a pending action, and a connected input.
+ */
+class Session extends Reactor {
+  t = new Timer(this, 0, TimeValue.msec(500));
+
+  later = new Action<null>(this, Origin.logical);
+
+  in = new InPort<number>(this);
+
+  constructor(parent: Reactor, log: string[]) {
+    super(parent);
+    this.addReaction(
+      [this.startup],
+      [this.schedulable(this.later)],
+      function (this, later) {
+        later.schedule(TimeValue.sec(2), null);
+      }
+    );
+    this.addReaction([this.t], [], function (this) {
+      log.push(`tick at ${this.util.getElapsedLogicalTime()}`);
+    });
+    this.addReaction([this.in], [this.in], function (this, inp) {
+      log.push(`received ${inp.get()}`);
+    });
+    this.addReaction([this.later], [], function (this) {
+      log.push("later");
+    });
+    this.addTeardownHandler(() => {
+      log.push("session torn down");
+    });
+  }
+}
+
+class Host extends App {
+  log = new Array<string>();
+
+  counter = new Counter(this, this.log);
+
+  session = new Session(this, this.log);
+
+  end = new Timer(this, TimeValue.sec(1), 0);
+
+  constructor(success: () => void) {
+    super(
+      TimeValue.sec(3),
+      false,
+      true,
+      success,
+      () => undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    this._connect(this.counter.out, this.session.in);
+    const self = this;
+    this.addMutation([this.end], [], function (this) {
+      this.delete(self.session);
+    });
+  }
+}
+
+/**
+ * Reactor that contains a counter.
+ */
+class Outer extends Reactor {
+  counter: Counter;
+
+  constructor(parent: Reactor, log: string[]) {
+    super(parent);
+    this.counter = new Counter(this, log);
+    this.addTeardownHandler(() => {
+      log.push("outer torn down");
+    });
+  }
+}
+
+class Nest extends App {
+  log = new Array<string>();
+
+  outer = new Outer(this, this.log);
+
+  end = new Timer(this, TimeValue.sec(1), 0);
+
+  constructor() {
+    super(TimeValue.sec(3), false, true);
+    const self = this;
+    this.addMutation([this.end], [], function (this) {
+      this.delete(self.outer);
+    });
+  }
+}
+
+describe("Deleted reactors", () => {
+  it("are torn down at the end of the tag", async () => {
+    let app: Host | undefined;
+    await new Promise<void>((resolve) => {
+      app = new Host(resolve);
+      app.pause();
+      app._start();
+      void app.stepUntil(new Tag(TimeValue.sec(1), 0)).then(() => {
+        const events = app?.checkpoint().events.map((e) => e.trigger);
+        expect(events).toEqual(["host.counter.t", "host.shutdown"]);
+        app?.resume();
+      });
+    });
+    expect(app?.log).toEqual([
+      `tick at ${TimeValue.zero()}`,
+      "received 0",
+      `tick at ${TimeValue.msec(500)}`,
+      `tick at ${TimeValue.sec(1)}`,
+      "received 1",
+      "session torn down",
+      "counter torn down"
+    ]);
+  });
+
+  it("are left in place at the end of execution", async () => {
+    const app = new Host(() => undefined);
+    await app.run();
+    expect(app.log.slice(-2)).toEqual([
+      "session torn down",
+      "counter torn down"
+    ]);
+    // The counter is still part of the app, unlike the deleted session.
+    expect(Array.from(app._collectByPath(Timer).keys())).toEqual([
+      "host.end",
+      "host.counter.t"
+    ]);
+  });
+
+  it("are torn down along with the reactors they contain", async () => {
+    const app = new Nest();
+    await app.run();
+    expect(app.log).toEqual(["counter torn down", "outer torn down"]);
+    expect(Array.from(app._collectByPath(Timer).keys())).toEqual(["nest.end"]);
+  });
+});
@@ -0,0 +1,140 @@
+import {App, Timer, TimeValue, VirtualClock} from "../src/core/internal";
+
+/**
+ * App that speeds up its sampling timer after the second sample, pauses it
+ * after the fourth, and resumes it once woken up.
+ */
+class Sampler extends App {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  wake = new Timer(this, TimeValue.sec(3), 0);
+
+  log = new Array<string>();
+
+  constructor(success: () => void) {
+    super(
+      TimeValue.sec(4),
+      false,
+      true,
+      success,
+      () => undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    const log = this.log;
+    let samples = 0;
+    this.addReaction([this.t], [this.controllable(this.t)], function (this, t) {
+      log.push(`sample at ${this.util.getElapsedLogicalTime()}`);
+      samples++;
+      if (samples === 2) {
+        t.setPeriod(TimeValue.msec(500));
+      } else if (samples === 4) {
+        t.pause();
+      }
+    });
+    this.addReaction(
+      [this.wake],
+      [this.controllable(this.t)],
+      function (this, t) {
+        log.push(`paused: ${t.isPaused()}`);
+        t.resume(TimeValue.msec(250));
+      }
+    );
+  }
+}
+
+/**
+ * App with a one-off timer that turns itself into a periodic one.
+ */
+class Repeater extends App {
+  t = new Timer(this, 0, 0);
+
+  log = new Array<string>();
+
+  constructor(success: () => void) {
+    super(
+      TimeValue.sec(2),
+      false,
+      true,
+      success,
+      () => undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    const log = this.log;
+    this.addReaction([this.t], [this.controllable(this.t)], function (this, t) {
+      log.push(`fired at ${this.util.getElapsedLogicalTime()}`);
+      t.setPeriod(TimeValue.sec(1));
+    });
+  }
+}
+
+/**
+ * App with a periodic timer that is given a zero period when it fires for the
+ * second time.
+ */
+class Stopper extends App {
+  t = new Timer(this, 0, TimeValue.sec(1));
+
+  log = new Array<string>();
+
+  constructor(success: () => void) {
+    super(
+      TimeValue.sec(4),
+      false,
+      true,
+      success,
+      () => undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    const log = this.log;
+    this.addReaction([this.t], [this.controllable(this.t)], function (this, t) {
+      log.push(`fired at ${this.util.getElapsedLogicalTime()}`);
+      if (log.length === 2) {
+        t.setPeriod(0);
+      }
+    });
+  }
+}
+
+const at = (msec: number): string => `${TimeValue.msec(msec)}`;
+
+describe("Timer control", () => {
+  it("changes the period, pauses, and resumes timers", (done) => {
+    const app = new Sampler(() => {
+      expect(app.log).toEqual([
+        `sample at ${at(0)}`,
+        `sample at ${at(1000)}`,
+        `sample at ${at(1500)}`,
+        `sample at ${at(2000)}`,
+        "paused: true",
+        `sample at ${at(3250)}`,
+        `sample at ${at(3750)}`
+      ]);
+      done();
+    });
+    app._start();
+  });
+
+  it("makes one-off timers periodic", (done) => {
+    const app = new Repeater(() => {
+      expect(app.log).toEqual([
+        `fired at ${at(0)}`,
+        `fired at ${at(1000)}`,
+        `fired at ${at(2000)}`
+      ]);
+      done();
+    });
+    app._start();
+  });
+
+  it("stops timers with a zero period after their next event", (done) => {
+    const app = new Stopper(() => {
+      expect(app.log).toEqual([
+        `fired at ${at(0)}`,
+        `fired at ${at(1000)}`,
+        `fired at ${at(2000)}`
+      ]);
+      done();
+    });
+    app._start();
+  });
+});
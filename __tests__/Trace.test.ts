@@ -0,0 +1,115 @@
+import {mkdtempSync, readFileSync, rmSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {
+  App,
+  Timer,
+  TimeValue,
+  CommandLineOptionDefs,
+  applyCommandLineArgs
+} from "../src/core/internal";
+
+class Ticker extends App {
+  t = new Timer(this, 0, TimeValue.msec(5));
+
+  ticks = 0;
+
+  constructor(success: () => void, fail: () => void) {
+    super(TimeValue.msec(10), false, false, success, fail);
+    const self = this;
+    this.addReaction([this.t], [], function (this) {
+      self.ticks++;
+    });
+  }
+}
+
+interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: string;
+  ts: number;
+  dur?: number;
+  args?: Record<string, unknown>;
+}
+
+describe("Execution trace", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "reactor-ts-trace-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  it("records reactions, events, and alarms", (done) => {
+    const file = join(dir, "trace.json");
+    const app = new Ticker(
+      () => {
+        const trace = JSON.parse(readFileSync(file, "utf8")) as TraceEvent[];
+        const reactions = trace.filter((e) => e.name === "ticker[R0]");
+        expect(reactions.length).toBe(app.ticks);
+        for (const reaction of reactions) {
+          expect(reaction.cat).toBe("reaction");
+          expect(reaction.ph).toBe("X");
+          expect(reaction.dur).toBeGreaterThanOrEqual(0);
+          expect(reaction.args?.reactor).toBe("ticker");
+        }
+        const events = trace.filter((e) => e.cat === "event");
+        expect(events.map((e) => e.name)).toContain("ticker.t");
+        expect(trace.some((e) => e.cat === "alarm" && e.ph === "X")).toBe(true);
+        expect(
+          trace.some((e) => e.ph === "M" && e.args?.name === "ticker")
+        ).toBe(true);
+        done();
+      },
+      () => {
+        done(new Error("Unexpected failure."));
+      }
+    );
+    app.enableTracing(file);
+    app._start();
+    expect(() => {
+      app.enableTracing(file);
+    }).toThrowError("Cannot enable tracing after execution has started.");
+  });
+
+  it("is completed if execution is aborted", () => {
+    const file = join(dir, "trace.json");
+    class Failing extends App {
+      constructor() {
+        super(undefined, false, true);
+        this.addReaction([this.startup], [], function (this) {
+          throw new Error("Failure at startup");
+        });
+      }
+    }
+    const app = new Failing();
+    app.enableTracing(file);
+    expect(() => {
+      app._start();
+    }).toThrowError("Failure at startup");
+    const trace = JSON.parse(readFileSync(file, "utf8")) as TraceEvent[];
+    expect(trace.some((e) => e.ph === "M" && e.args?.name === "failing")).toBe(
+      true
+    );
+  });
+
+  it("can be enabled from the command line", (done) => {
+    expect(CommandLineOptionDefs.map((def) => def.name)).toContain("trace");
+    const file = join(dir, "trace.json");
+    const app = new Ticker(
+      () => {
+        const trace = JSON.parse(readFileSync(file, "utf8")) as TraceEvent[];
+        expect(trace.some((e) => e.name === "ticker[R0]")).toBe(true);
+        done();
+      },
+      () => {
+        done(new Error("Unexpected failure."));
+      }
+    );
+    applyCommandLineArgs(app, {trace: file});
+    app._start();
+  });
+});
@@ -0,0 +1,158 @@
+import type {Tag} from "../src/core/internal";
+import {
+  Action,
+  Alarm,
+  App,
+  Origin,
+  Timer,
+  TimeValue,
+  VirtualClock
+} from "../src/core/internal";
+
+/**
+ * App that has a timer with a deadline and a physical action, of which the
+ * behavior is fully determined by the virtual clock that drives it.
+ */
+class Deadlines extends App {
+  t = new Timer(this, TimeValue.secs(1), 0);
+
+  p = new Action<string>(this, Origin.physical);
+
+  late = false;
+
+  onTime = false;
+
+  received: Array<[string, Tag]> = [];
+
+  constructor(
+    clock: VirtualClock,
+    deadline: TimeValue,
+    success: () => void,
+    failure: () => void
+  ) {
+    super(TimeValue.secs(3), false, false, success, failure, clock);
+    const self = this;
+    this.addReaction(
+      [this.t],
+      [],
+      function (this) {
+        self.onTime = true;
+      },
+      deadline,
+      function (this) {
+        self.late = true;
+      }
+    );
+    this.addReaction([this.p], [this.p], function (this, p) {
+      const value = p.get();
+      if (value !== undefined) {
+        self.received.push([value, this.util.getCurrentTag()]);
+      }
+    });
+  }
+
+  public schedulePhysical(value: string): void {
+    this.schedulable(this.p).schedule(0, value);
+  }
+}
+
+describe("Virtual clock", () => {
+  it("cannot move backward", () => {
+    const clock = new VirtualClock(TimeValue.secs(5));
+    expect(() => {
+      clock.advanceTo(TimeValue.secs(4));
+    }).toThrowError("Cannot move a virtual clock backward in time.");
+    clock.advance(TimeValue.secs(1));
+    expect(clock.now().isEqualTo(TimeValue.secs(6))).toBe(true);
+  });
+
+  it("drives an alarm", () => {
+    const clock = new VirtualClock();
+    const alarm = new Alarm(clock);
+    let fired = false;
+    alarm.set(() => {
+      fired = true;
+    }, TimeValue.msec(100));
+    clock.advance(TimeValue.msec(99));
+    expect(fired).toBe(false);
+    clock.advance(TimeValue.msec(1));
+    expect(fired).toBe(true);
+  });
+
+  it("does not fire an alarm that was unset", () => {
+    const clock = new VirtualClock();
+    const alarm = new Alarm(clock);
+    let fired = false;
+    alarm.set(() => {
+      fired = true;
+    }, TimeValue.msec(100));
+    alarm.unset();
+    clock.advance(TimeValue.secs(1));
+    expect(fired).toBe(false);
+  });
+});
+
+describe("App driven by a virtual clock", () => {
+  it("misses a deadline deterministically", (done) => {
+    const clock = new VirtualClock();
+    const app = new Deadlines(
+      clock,
+      TimeValue.msec(100),
+      () => {
+        expect(app.late).toBe(true);
+        expect(app.onTime).toBe(false);
+        done();
+      },
+      () => {
+        done(new Error("Unexpected failure."));
+      }
+    );
+    app._start();
+    expect(app.late).toBe(false);
+    // Arrive 500 msec late for the timer event at 1 sec.
+    clock.advanceTo(TimeValue.msec(1500));
+    expect(app.late).toBe(true);
+    clock.advanceTo(TimeValue.secs(3));
+  });
+
+  it("meets a deadline deterministically", (done) => {
+    const clock = new VirtualClock();
+    const app = new Deadlines(
+      clock,
+      TimeValue.msec(500),
+      () => {
+        expect(app.late).toBe(false);
+        expect(app.onTime).toBe(true);
+        done();
+      },
+      () => {
+        done(new Error("Unexpected failure."));
+      }
+    );
+    app._start();
+    clock.advanceTo(TimeValue.msec(1500));
+    clock.advanceTo(TimeValue.secs(3));
+  });
+
+  it("tags physical actions with the virtual time", (done) => {
+    const clock = new VirtualClock(TimeValue.secs(10));
+    const app = new Deadlines(
+      clock,
+      TimeValue.secs(1),
+      () => {
+        expect(app.received.length).toBe(1);
+        const [value, tag] = app.received[0];
+        expect(value).toBe("hello");
+        expect(tag.time.isEqualTo(TimeValue.msec(11250))).toBe(true);
+        done();
+      },
+      () => {
+        done(new Error("Unexpected failure."));
+      }
+    );
+    app._start();
+    clock.advanceTo(TimeValue.msec(11250));
+    app.schedulePhysical("hello");
+    clock.advanceTo(TimeValue.secs(13));
+  });
+});
@@ -0,0 +1,110 @@
+import type {Tag} from "../src/core/internal";
+import {
+  Action,
+  App,
+  Origin,
+  TimeValue,
+  VirtualClock,
+  Watchdog
+} from "../src/core/internal";
+
+/**
+ * App that expects heartbeats at least every 100 msec, and records when it
+ * misses one.
+ */
+class Monitor extends App {
+  heartbeat = new Action<boolean>(this, Origin.physical);
+
+  watchdog = new Watchdog(this, TimeValue.msec(100));
+
+  expired: Tag[] = [];
+
+  constructor(clock: VirtualClock, success: () => void, fail: () => void) {
+    super(TimeValue.secs(1), true, false, success, fail, clock);
+    const self = this;
+    this.addReaction(
+      [this.startup, this.heartbeat],
+      [this.heartbeat, this.watchable(this.watchdog)],
+      function (this, heartbeat, watchdog) {
+        if (heartbeat.get() === false) {
+          watchdog.stop();
+        } else {
+          watchdog.start();
+        }
+      }
+    );
+    this.addReaction([this.watchdog], [this.watchdog], function (this, w) {
+      const tag = w.get();
+      if (tag !== undefined) {
+        self.expired.push(tag);
+      }
+    });
+  }
+
+  public beat(alive = true): void {
+    this.schedulable(this.heartbeat).schedule(0, alive);
+  }
+}
+
+/**
+ * Advance the given clock and let the app process the events that result.
+ */
+const advanceTo = async (
+  clock: VirtualClock,
+  time: TimeValue
+): Promise<void> => {
+  await new Promise((resolve) => setImmediate(resolve));
+  clock.advanceTo(time);
+  await new Promise((resolve) => setImmediate(resolve));
+};
+
+/**
+ * Start a monitor driven by the given clock.
+ * @returns The monitor and a promise that resolves when it has finished.
+ */
+const start = (clock: VirtualClock): [Monitor, Promise<void>] => {
+  let app: Monitor | undefined;
+  const finished = new Promise<void>((resolve, reject) => {
+    app = new Monitor(clock, resolve, () => {
+      reject(new Error("Unexpected failure."));
+    });
+  });
+  if (app === undefined) {
+    throw new Error("Monitor was not created.");
+  }
+  app._start();
+  return [app, finished];
+};
+
+describe("Watchdog", () => {
+  it("rejects a timeout that is not positive", () => {
+    const app = new App();
+    expect(() => new Watchdog(app, TimeValue.zero())).toThrowError(
+      "The timeout of a watchdog must be positive."
+    );
+  });
+
+  it("expires when it is not restarted in time", async () => {
+    const clock = new VirtualClock();
+    const [app, finished] = start(clock);
+    await advanceTo(clock, TimeValue.msec(50));
+    app.beat();
+    await advanceTo(clock, TimeValue.msec(120));
+    expect(app.expired.length).toBe(0);
+    await advanceTo(clock, TimeValue.msec(300));
+    await advanceTo(clock, TimeValue.secs(1));
+    await finished;
+    expect(app.expired.length).toBe(1);
+    expect(app.expired[0].time.isEqualTo(TimeValue.msec(150))).toBe(true);
+  });
+
+  it("does not expire once stopped", async () => {
+    const clock = new VirtualClock();
+    const [app, finished] = start(clock);
+    await advanceTo(clock, TimeValue.msec(50));
+    app.beat(false);
+    await advanceTo(clock, TimeValue.secs(1));
+    await finished;
+    expect(app.expired.length).toBe(0);
+  });
+});
@@ -1,16 +1,42 @@
-import type {Absent, Read, Sched, Reactor, TriggerManager} from "./internal";
+import type {
+  Absent,
+  Read,
+  Sched,
+  ScheduledEvent,
+  Reactor,
+  TriggerManager
+} from "./internal";
 import {
   Log,
   TaggedEvent,
-  getCurrentPhysicalTime,
   Origin,
   Tag,
-  TimeUnit,
   TimeValue,
   ScheduledTrigger
 } from "./internal";
 
-const defaultMIT = TimeValue.withUnits(1, TimeUnit.nsec); // FIXME
+/**
+ * Policy that determines what happens when an action is scheduled with a tag
+ * that is less than its minimum interarrival time after the tag of the
+ * previous event of the action. Events that have been cancelled do not count.
+ */
+export enum InterArrivalPolicy {
+  /**
+   * Postpone the new event to the earliest tag that respects the minimum
+   * interarrival time.
+   */
+  DEFER = "defer",
+  /**
+   * Discard the new event.
+   */
+  DROP = "drop",
+  /**
+   * Give the value of the new event to the previous event if it is still on
+   * the event queue, which it is not once it has been suspended in an
+   * inactive mode; otherwise, postpone the new event like `DEFER` does.
+   */
+  REPLACE = "replace"
+}
 
 export abstract class SchedulableAction<T> implements Sched<T> {
   abstract get(): T | undefined;
@@ -18,7 +44,10 @@ export abstract class SchedulableAction<T> implements Sched<T> {
     extraDelay: 0 | TimeValue,
     value: T,
     intendedTag?: Tag
-  ): void;
+  ): ScheduledEvent;
+
+  abstract isPresent(): boolean;
+  abstract pendingCount(): number;
 }
 
 /**
@@ -35,7 +64,17 @@ export class Action<T> extends ScheduledTrigger<T> implements Read<T> {
 
   readonly minDelay: TimeValue;
 
-  readonly minInterArrival: TimeValue = defaultMIT;
+  readonly minInterArrival: TimeValue;
+
+  readonly policy: InterArrivalPolicy;
+
+  /**
+   * Return the number of events of this action that were dropped because
+   * they violated its minimum interarrival time.
+   */
+  public getDroppedCount(): number {
+    return this.scheduler.dropped;
+  }
 
   public get(): T | Absent {
     if (this.isPresent()) {
@@ -64,22 +103,97 @@ export class Action<T> extends ScheduledTrigger<T> implements Read<T> {
       return this.action.get();
     }
 
+    isPresent(): boolean {
+      return this.action.isPresent();
+    }
+
+    pendingCount(): number {
+      return this.scheduled().length;
+    }
+
+    /**
+     * The tag of the most recently scheduled event of the action that has not
+     * been cancelled.
+     */
+    private lastTag: Tag | undefined;
+
+    /**
+     * The number of events that were dropped because they violated the
+     * minimum interarrival time.
+     */
+    public dropped = 0;
+
     constructor(private readonly action: Action<T>) {
       super();
     }
 
-    schedule(extraDelay: 0 | TimeValue, value: T, intendedTag?: Tag): void {
+    /**
+     * Return a handle to the given event, or to no event if it is undefined.
+     * @param event The event to return a handle to.
+     */
+    private handle(event?: TaggedEvent<unknown>): ScheduledEvent {
+      const runtime = this.action.runtime;
+      return {
+        tag: event?.tag,
+        isPending: () =>
+          event !== undefined &&
+          this.scheduled().some((e) => e.tag.isSimultaneousWith(event.tag)),
+        cancel: () => {
+          if (event === undefined || !runtime.unschedule(event)) {
+            return false;
+          }
+          // The minimum interarrival time is measured from the previous
+          // event that has not been cancelled.
+          if (this.lastTag?.isSimultaneousWith(event.tag) === true) {
+            this.lastTag = this.scheduled().reduce<Tag | undefined>(
+              (latest, e) =>
+                latest === undefined || e.tag.isGreaterThan(latest)
+                  ? e.tag
+                  : latest,
+              this.action.tag
+            );
+          }
+          return true;
+        }
+      };
+    }
+
+    /**
+     * Return the pending events of the action, including those suspended in
+     * an inactive mode.
+     */
+    private scheduled(): Array<TaggedEvent<unknown>> {
+      const runtime = this.action.runtime;
+      return [
+        ...runtime.pending(this.action),
+        ...runtime.suspended(this.action)
+      ];
+    }
+
+    schedule(
+      extraDelay: 0 | TimeValue,
+      value: T,
+      intendedTag?: Tag
+    ): ScheduledEvent {
       if (!(extraDelay instanceof TimeValue)) {
         extraDelay = TimeValue.zero();
       }
 
-      let tag = this.action.runtime.util.getCurrentTag();
       const delay = this.action.minDelay.add(extraDelay);
-
-      tag = tag.getLaterTag(delay);
+      const earliest = this.action.runtime.util
+        .getCurrentTag()
+        .getLaterTag(delay);
+      let tag = earliest;
 
       if (this.action.origin === Origin.physical) {
-        tag = new Tag(getCurrentPhysicalTime(), 0).getLaterTag(delay);
+        tag = new Tag(
+          this.action.runtime.util.getCurrentPhysicalTime(),
+          0
+        ).getLaterTag(delay);
+        // Logical time may have advanced past physical time.
+        if (tag.isSmallerThan(earliest)) {
+          tag = earliest;
+        }
       } else if (this.action instanceof FederatePortAction) {
         if (intendedTag === undefined) {
           throw new Error(
@@ -125,6 +239,41 @@ export class Action<T> extends ScheduledTrigger<T> implements Read<T> {
         tag = intendedTag;
       }
 
+      // Enforce the minimum interarrival time.
+      const last = this.lastTag;
+      if (
+        last !== undefined &&
+        !this.action.minInterArrival.isZero() &&
+        tag.time.isEarlierThan(last.time.add(this.action.minInterArrival))
+      ) {
+        const policy = this.action.policy;
+        if (policy === InterArrivalPolicy.DROP) {
+          this.dropped++;
+          Log.debug(
+            this,
+            () => `Dropping event of ${this.action} with tag: ${tag}`
+          );
+          return this.handle();
+        }
+        // Only replace the value of the previous event if it is still in the
+        // event queue, so not if it has been cancelled or suspended.
+        const pending =
+          policy === InterArrivalPolicy.REPLACE
+            ? this.action.runtime
+                .pending(this.action)
+                .find((e) => e.tag.isSimultaneousWith(last))
+            : undefined;
+        if (pending !== undefined) {
+          Log.debug(
+            this,
+            () => `Replacing value of ${this.action} with tag: ${last}`
+          );
+          pending.value = value;
+          return this.handle(pending);
+        }
+        tag = new Tag(last.time.add(this.action.minInterArrival), 0);
+      }
+
       Log.debug(
         this,
         () => `Scheduling ${this.action.origin} action 
@@ -133,7 +282,10 @@ export class Action<T> extends ScheduledTrigger<T> implements Read<T> {
                 )} with tag: ${tag}`
       );
 
-      this.action.runtime.schedule(new TaggedEvent(this.action, tag, value));
+      const event = new TaggedEvent(this.action, tag, value);
+      this.lastTag = tag;
+      this.action.runtime.schedule(event);
+      return this.handle(event);
     }
   })(this);
 
@@ -145,18 +297,24 @@ export class Action<T> extends ScheduledTrigger<T> implements Read<T> {
    * the current logical time (plus one microstep) is used as the offset.
    * @param minDelay Optional. Defaults to 0. Specifies the intrinsic delay of
    * any events resulting from scheduling this action.
-   * @param minInterArrival Optional. Defaults to 1 nsec. Specifies the minimum
-   * intrinsic delay between to occurrences of this action.
+   * @param minInterArrival Optional. Defaults to 0, which imposes no minimum.
+   * Specifies the minimum amount of time between two occurrences of this
+   * action.
+   * @param policy Optional. Defaults to `InterArrivalPolicy.DEFER`. Specifies
+   * what happens to events that violate the minimum interarrival time.
    */
   constructor(
     __container__: Reactor,
     origin: Origin,
     minDelay: TimeValue = TimeValue.secs(0),
-    minInterArrival: TimeValue = defaultMIT
+    minInterArrival: TimeValue = TimeValue.zero(),
+    policy: InterArrivalPolicy = InterArrivalPolicy.DEFER
   ) {
     super(__container__);
     this.origin = origin;
     this.minDelay = minDelay;
+    this.minInterArrival = minInterArrival;
+    this.policy = policy;
   }
 
   public toString(): string {
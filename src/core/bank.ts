@@ -1,3 +1,4 @@
+import {Log} from "./internal";
 import type {
   IOPort,
   MultiPort,
@@ -16,6 +17,25 @@ export type ReactorClass<T extends Reactor, S> = new (
   ...parameters: ParmList<S>
 ) => T;
 
+/**
+ * Function that returns the arguments of the bank member with a given index,
+ * wrapped so that it cannot be mistaken for an argument of a member.
+ */
+class IndexedParameters<S> {
+  constructor(readonly of: (index: number) => ParmList<S>) {}
+}
+
+/**
+ * Return whether the given arguments of the constructor of a bank are indexed
+ * parameters.
+ * @param parameters the arguments to check
+ */
+function isIndexed<S>(
+  parameters: ParmList<S> | [IndexedParameters<S>]
+): parameters is [IndexedParameters<S>] {
+  return parameters[0] instanceof IndexedParameters;
+}
+
 /**
  * A bank of reactor instances.
  */
@@ -26,10 +46,9 @@ export class Bank<T extends Reactor, S> {
   private readonly members = new Array<T>();
 
   /**
-   * A mapping from containing reactors to indices corresponding to the member
-   * of a contained bank that is currently being initialized (if there is one).
+   * Function that constructs the member with the given bank index.
    */
-  public static readonly initializationMap = new Map<Reactor, number>();
+  private readonly construct: (index: number) => T;
 
   /**
    * Construct a new bank of given width on the basis of a given reactor class and a list of arguments.
@@ -42,13 +61,105 @@ export class Bank<T extends Reactor, S> {
     width: number,
     cls: ReactorClass<T, S>,
     ...parameters: ParmList<S>
+  );
+
+  /**
+   * Construct a new bank of given width of which the arguments of each member
+   * depend on its index. Use `Bank.withParameters` to invoke this.
+   */
+  constructor(
+    container: Reactor,
+    width: number,
+    cls: ReactorClass<T, S>,
+    parameters: IndexedParameters<S>
+  );
+
+  constructor(
+    private readonly container: Reactor,
+    width: number,
+    cls: ReactorClass<T, S>,
+    ...parameters: ParmList<S> | [IndexedParameters<S>]
   ) {
-    for (let i = 0; i < width; i++) {
-      Bank.initializationMap.set(container, i);
-      console.log(`Setting initializing to ${i}`);
-      this.members.push(Reflect.construct(cls, parameters, cls));
+    this.construct = Bank.factory(
+      container,
+      cls,
+      isIndexed(parameters) ? parameters[0].of : () => parameters
+    );
+    this._resize(width);
+  }
+
+  /**
+   * Construct a new bank of given width on the basis of a given reactor class
+   * and a function that returns the arguments to construct each member with.
+   * This allows the members of a bank to be parameterized by their index.
+   * @param width the width of the bank
+   * @param cls the class to construct reactor instances of that will populate the bank
+   * @param parameters function that, given the index of a member, returns the arguments to pass into its constructor
+   */
+  public static withParameters<T extends Reactor, S>(
+    container: Reactor,
+    width: number,
+    cls: ReactorClass<T, S>,
+    parameters: (index: number) => ParmList<S>
+  ): Bank<T, S> {
+    return new Bank(container, width, cls, new IndexedParameters(parameters));
+  }
+
+  /**
+   * Return a function that constructs the bank member with the given index.
+   * @param container the reactor that contains the bank
+   * @param cls the class to construct reactor instances of
+   * @param parameters function that returns the arguments for a given index
+   */
+  private static factory<T extends Reactor, S>(
+    container: Reactor,
+    cls: ReactorClass<T, S>,
+    parameters: (index: number) => ParmList<S>
+  ): (index: number) => T {
+    return (index) => {
+      Log.debug(
+        container,
+        () => `Constructing member ${index} of a bank of ${container}.`
+      );
+      return container._constructBankMember(index, () =>
+        Reflect.construct(cls, parameters(index), cls)
+      );
+    };
+  }
+
+  /**
+   * Return the reactor that contains the members of this bank.
+   */
+  public getContainer(): Reactor {
+    return this.container;
+  }
+
+  /**
+   * Change the number of members of this bank by removing members from the
+   * end or by appending new ones, so that the bank indices of the remaining
+   * members do not change. Removed members are not deleted; this is up to
+   * the caller.
+   * @param width the new width of the bank
+   * @returns the members that were added and the members that were removed
+   */
+  public _resize(width: number): [T[], T[]] {
+    const removed = this.members.splice(width);
+    const added = new Array<T>();
+    while (this.members.length < width) {
+      const member = this.construct(this.members.length);
+      this.members.push(member);
+      added.push(member);
     }
-    Bank.initializationMap.delete(container);
+    return [added, removed];
+  }
+
+  /**
+   * Make the given reactor instances the members of this bank again. Only to
+   * be used to undo resizing this bank.
+   * @param members the members of this bank before it was resized
+   */
+  public _restore(members: T[]): void {
+    this.members.splice(0, this.members.length, ...members);
   }
 
   /**
@@ -82,6 +193,29 @@ export class Bank<T extends Reactor, S> {
     );
   }
 
+  /**
+   * Return the channels of the multiports selected across all bank members
+   * by the given lambda in interleaved order: the first channel of each
+   * member, followed by the second channel of each member, and so on.
+   * @param selector lambda function that takes a reactor of type T and return a multiport
+   * @returns the channels of the selected multiports in interleaved order
+   */
+  public interleaved<P>(
+    selector: (reactor: T) => MultiPort<P>
+  ): Array<IOPort<P>> {
+    const multiports = this.all().map(selector);
+    const width = Math.max(0, ...multiports.map((port) => port.width()));
+    const result = new Array<IOPort<P>>(0);
+    for (let channel = 0; channel < width; channel++) {
+      for (const port of multiports) {
+        if (channel < port.width()) {
+          result.push(port.channel(channel));
+        }
+      }
+    }
+    return result;
+  }
+
   public toString(): string {
     return `bank(${this.members.length})`;
   }
@@ -0,0 +1,263 @@
+import {Tag, TimeValue} from "./internal";
+
+/**
+ * Version of the checkpoint format produced by `App.checkpoint`.
+ */
+export const CHECKPOINT_VERSION = 1;
+
+/**
+ * A codec converts values of a user-defined type to and from a
+ * representation that can be serialized as JSON, so that such values can be
+ * included in checkpoints. Codecs are registered using `App.registerCodec`.
+ */
+export interface Codec<T> {
+  /**
+   * The name that identifies this codec in checkpoints. It must be unique
+   * among the codecs registered with an app.
+   */
+  readonly name: string;
+
+  /**
+   * Return whether this codec is able to encode the given value.
+   */
+  accepts: (value: unknown) => boolean;
+
+  /**
+   * Return a representation of the given value that can be serialized as
+   * JSON.
+   */
+  encode: (value: T) => unknown;
+
+  /**
+   * Reconstruct a value from the representation returned by `encode`.
+   */
+  decode: (data: unknown) => T;
+}
+
+/**
+ * A value in a checkpoint. Values that can be serialized as JSON are stored
+ * as is; other values are stored along with the name of the codec that
+ * encoded them.
+ */
+export interface EncodedValue {
+  codec?: string;
+  data?: unknown;
+}
+
+/**
+ * A tag in a checkpoint. Its time is relative to the start of execution and
+ * given as a tuple of seconds and nanoseconds.
+ */
+export interface EncodedTag {
+  time: [number, number];
+  microstep: number;
+}
+
+/**
+ * An event in a checkpoint.
+ */
+export interface EncodedEvent {
+  /**
+   * The path of the trigger of the event, relative to the app.
+   */
+  trigger: string;
+  tag: EncodedTag;
+  value: EncodedValue;
+  /**
+   * If the trigger of the event is in an inactive mode, the path of that
+   * mode and the tag at which the event was suspended.
+   */
+  suspended?: {mode: string; tag: EncodedTag};
+}
+
+/**
+ * A timer in a checkpoint. Its period may have been changed by reactions.
+ */
+export interface EncodedTimer {
+  period: [number, number];
+  paused: boolean;
+}
+
+/**
+ * The state of an app at a tag boundary, in a form that can be serialized as
+ * JSON. Components are identified by their path relative to the app, which
+ * consists of the property names under which they are stored in their
+ * containers.
+ */
+export interface Checkpoint {
+  version: number;
+  /**
+   * The tag at which the checkpoint was taken.
+   */
+  tag: EncodedTag;
+  /**
+   * The tag at which execution ends, if known.
+   */
+  end?: EncodedTag;
+  /**
+   * The values of all state variables.
+   */
+  states: Record<string, EncodedValue>;
+  /**
+   * The paths of the current modes of all reactors that have modes.
+   */
+  modes: string[];
+  /**
+   * The periods of all timers and whether they are paused.
+   */
+  timers: Record<string, EncodedTimer>;
+  /**
+   * All pending events, including those of triggers in inactive modes.
+   */
+  events: EncodedEvent[];
+  /**
+   * The time of the last periodic checkpoint relative to the start of
+   * execution, if periodic checkpoints are enabled.
+   */
+  lastCheckpoint?: [number, number];
+}
+
+/**
+ * Return whether the given value is preserved when serialized as JSON.
+ * @param value The value to inspect.
+ */
+function isJSON(value: unknown): boolean {
+  switch (typeof value) {
+    case "string":
+    case "boolean":
+      return true;
+    case "number":
+      return Number.isFinite(value);
+    case "object": {
+      if (value === null) {
+        return true;
+      }
+      if (Array.isArray(value)) {
+        return value.every(isJSON);
+      }
+      const prototype: unknown = Object.getPrototypeOf(value);
+      return (
+        (prototype === Object.prototype || prototype === null) &&
+        Object.values(value).every(isJSON)
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * The codecs that an app uses to encode and decode values in checkpoints.
+ * Codecs for `undefined`, `TimeValue`, and `Tag` are registered by default.
+ * Values that are preserved when serialized as JSON need no codec.
+ */
+export class CodecRegistry {
+  private readonly codecs = new Map<string, Codec<unknown>>();
+
+  constructor() {
+    this.register<undefined>({
+      name: "undefined",
+      accepts: (value) => value === undefined,
+      encode: () => undefined,
+      decode: () => undefined
+    });
+    this.register<TimeValue>({
+      name: "TimeValue",
+      accepts: (value) => value instanceof TimeValue,
+      encode: (value) => value.toTimeTuple(),
+      decode: (data) => {
+        const [seconds, nanoseconds] = data as [number, number];
+        return TimeValue.secsAndNs(seconds, nanoseconds);
+      }
+    });
+    this.register<Tag>({
+      name: "Tag",
+      accepts: (value) => value instanceof Tag,
+      encode: (value) => [...value.time.toTimeTuple(), value.microstep],
+      decode: (data) => {
+        const [seconds, nanoseconds, microstep] = data as [
+          number,
+          number,
+          number
+        ];
+        return new Tag(TimeValue.secsAndNs(seconds, nanoseconds), microstep);
+      }
+    });
+  }
+
+  /**
+   * Register a codec.
+   * @param codec The codec to register.
+   */
+  public register<T>(codec: Codec<T>): void {
+    if (this.codecs.has(codec.name)) {
+      throw new Error(`A codec named ${codec.name} is already registered.`);
+    }
+    this.codecs.set(codec.name, codec as Codec<unknown>);
+  }
+
+  /**
+   * Encode the given value using the first registered codec that accepts
+   * it, unless it is preserved when serialized as JSON, in which case it is
+   * copied so that later changes to the value do not affect the result.
+   * @param value The value to encode.
+   * @param path The path of the component the value belongs to, used in
+   * error messages.
+   */
+  public encode(value: unknown, path: string): EncodedValue {
+    if (isJSON(value)) {
+      return {data: structuredClone(value)};
+    }
+    for (const codec of this.codecs.values()) {
+      if (codec.accepts(value)) {
+        return {codec: codec.name, data: codec.encode(value)};
+      }
+    }
+    throw new Error(`No codec registered for the value of ${path}.`);
+  }
+
+  /**
+   * Decode the given value. Values that need no codec are copied so that
+   * changes to the result do not affect the given value.
+   * @param value The value to decode.
+   * @param path The path of the component the value belongs to, used in
+   * error messages.
+   */
+  public decode(value: EncodedValue, path: string): unknown {
+    if (value.codec === undefined) {
+      return structuredClone(value.data);
+    }
+    const codec = this.codecs.get(value.codec);
+    if (codec === undefined) {
+      throw new Error(
+        `No codec named ${value.codec} registered to decode the value of ${path}.`
+      );
+    }
+    return codec.decode(value.data);
+  }
+
+  /**
+   * Encode the given tag relative to the given start of execution.
+   * @param tag The tag to encode.
+   * @param origin The start of execution.
+   */
+  public encodeTag(tag: Tag, origin: TimeValue): EncodedTag {
+    return {
+      time: tag.time.subtract(origin).toTimeTuple(),
+      microstep: tag.microstep
+    };
+  }
+
+  /**
+   * Decode the given tag relative to the given start of execution.
+   * @param tag The tag to decode.
+   * @param origin The start of execution.
+   */
+  public decodeTag(tag: EncodedTag, origin: TimeValue): Tag {
+    const [seconds, nanoseconds] = tag.time;
+    return new Tag(
+      origin.add(TimeValue.secsAndNs(seconds, nanoseconds)),
+      tag.microstep
+    );
+  }
+}
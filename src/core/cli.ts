@@ -1,4 +1,4 @@
-import {TimeUnit, TimeValue, Log} from "./internal";
+import {TimeUnit, TimeValue, Log, type App} from "./internal";
 
 // ---------------------------------------------------------------------//
 // Command Line Arguments Helper Functions                             //
@@ -96,6 +96,9 @@ export interface ProcessedCommandLineArgs {
   timeout: TimeValue | null | undefined;
   logging: Log.LogLevel | undefined;
   id: string | undefined;
+  trace: string | undefined;
+  record: string | undefined;
+  replay: string | undefined;
   help: boolean;
 }
 
@@ -165,6 +168,35 @@ export const CommandLineOptionDefs: CommandLineOptionSpec = [
     typeLabel: "{underline '<string>'}",
     description: "The ID of the federation that this reactor will join."
   },
+  {
+    name: "trace",
+    alias: "t",
+    type: stringCLAType,
+    typeLabel: "{underline '<file>'}",
+    description:
+      "Record a trace of the execution in the specified <file>, in the Chrome " +
+      "Trace Event format. The trace lists every reaction invocation, every event " +
+      "taken off the event queue, and every wait for physical time to catch up " +
+      "with logical time. It can be opened in chrome://tracing or Perfetto."
+  },
+  {
+    name: "record",
+    type: stringCLAType,
+    typeLabel: "{underline '<file>'}",
+    description:
+      "Record the events of physical actions in the specified <file>, so that " +
+      "the execution can be reproduced using the replay option."
+  },
+  {
+    name: "replay",
+    type: stringCLAType,
+    typeLabel: "{underline '<file>'}",
+    description:
+      "Replay the events of physical actions recorded in the specified <file> " +
+      "at the same tags as in the recorded execution, instead of the events " +
+      "that physical actions are scheduled with. Execution does not wait for " +
+      "physical time to catch up with logical time."
+  },
   {
     name: "help",
     alias: "h",
@@ -174,6 +206,29 @@ export const CommandLineOptionDefs: CommandLineOptionSpec = [
   }
 ];
 
+/**
+ * Configure the given app according to the command line arguments that are
+ * not passed into its constructor: record a trace of its execution, record
+ * the events of its physical actions, or replay them. Must be invoked before
+ * the app starts.
+ * @param app The app to configure.
+ * @param args The processed command line arguments.
+ */
+export function applyCommandLineArgs(
+  app: App,
+  args: Partial<Pick<ProcessedCommandLineArgs, "trace" | "record" | "replay">>
+): void {
+  if (args.trace != null) {
+    app.enableTracing(args.trace);
+  }
+  if (args.record != null) {
+    app.enableRecording(args.record);
+  }
+  if (args.replay != null) {
+    app.enableReplay(args.replay);
+  }
+}
+
 /**
  * Configuration for command line argument usage information.
  * Note: The order of the elements in the list is important.
@@ -1,3 +1,4 @@
+import type {Logger} from "pino";
 import type {Runtime} from "./internal";
 import {Reactor, App, MultiPort, IOPort, Bank} from "./internal";
 
@@ -26,6 +27,12 @@ export abstract class Component {
    */
   private readonly _container: Reactor;
 
+  /**
+   * The app this component belongs to, which is stored to avoid walking up
+   * the hierarchy each time a message is logged on behalf of this component.
+   */
+  private readonly _app: App;
+
   /**
    * Create a new component and register it with the given container.
    * @param container The reactor that will contain the new component,
@@ -43,10 +50,12 @@ export abstract class Component {
       container._register(this, this._key);
       // And set the container.
       this._container = container;
+      this._app = container._app;
     } else {
       if (this instanceof App) {
         // Apps are self-contained.
         this._container = this;
+        this._app = this;
       } else {
         throw new Error("Cannot instantiate component without a parent.");
       }
@@ -200,6 +209,10 @@ export abstract class Component {
       name = Component.keyOfMatchingBank(this, this._container);
     }
 
+    if (name === "" && this instanceof Reactor) {
+      name = this._container._getDelayName(this);
+    }
+
     if (name !== "") {
       return name;
     } else {
@@ -207,6 +220,14 @@ export abstract class Component {
     }
   }
 
+  /**
+   * Return the logger to log messages on behalf of this component with,
+   * which is the logger of the app it belongs to.
+   */
+  public _getLogger(): Logger {
+    return this._app._getLogger();
+  }
+
   /**
    * Return the container of this component.
    */
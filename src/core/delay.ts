@@ -0,0 +1,57 @@
+import type {TimeValue} from "./internal";
+import {Action, InPort, Origin, OutPort, Reactor} from "./internal";
+
+/**
+ * Reactor that relays the values it receives after a logical delay. A zero
+ * delay relays values at the next microstep. If the delay is physical, values
+ * are relayed at the physical time at which they are received, increased by
+ * the delay. Delays are inserted by `Reactor._connect` for connections with
+ * an `after` delay and for physical connections, so that the destination
+ * does not depend on the source at the same tag. Each delay is named after
+ * the connection it is inserted into, as in `source.out->sink.in`.
+ */
+export class Delay<T> extends Reactor {
+  in = new InPort<T>(this);
+
+  out = new OutPort<T>(this);
+
+  action: Action<T>;
+
+  /**
+   * Construct a new delay.
+   * @param parent The reactor containing the delayed connection.
+   * @param delay The delay of the connection.
+   * @param origin Optional. Defaults to logical. Whether the connection is
+   * physical.
+   */
+  constructor(
+    parent: Reactor,
+    delay: TimeValue,
+    origin: Origin = Origin.logical
+  ) {
+    super(parent);
+    this.action = new Action<T>(this, origin, delay);
+    // Relay delayed values before scheduling new ones so that the output
+    // does not depend on the input.
+    this.addReaction(
+      [this.action],
+      [this.action, this.writable(this.out)],
+      function (this, action, out) {
+        const value = action.get();
+        if (value !== undefined) {
+          out.set(value);
+        }
+      }
+    );
+    this.addReaction(
+      [this.in],
+      [this.in, this.schedulable(this.action)],
+      function (this, inp, action) {
+        const value = inp.get();
+        if (value !== undefined) {
+          action.schedule(0, value);
+        }
+      }
+    );
+  }
+}
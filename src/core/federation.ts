@@ -7,18 +7,10 @@ import type {
   Reaction,
   Variable,
   TaggedEvent,
-  SchedulableAction
-} from "./internal";
-import {
-  Log,
-  Tag,
-  TimeValue,
-  Origin,
-  getCurrentPhysicalTime,
-  Alarm,
-  App,
-  Reactor
+  SchedulableAction,
+  Checkpoint
 } from "./internal";
+import {Log, Tag, TimeValue, Origin, Alarm, App, Reactor} from "./internal";
 // ---------------------------------------------------------------------//
 // Federated Execution Constants and Enums                             //
 // ---------------------------------------------------------------------//
@@ -1337,30 +1329,38 @@ export class FederatedApp extends App {
 
   /**
    *  @override
-   *  Send RTI the MSG_STOP_REQUEST
+   *  Send RTI the MSG_STOP_REQUEST with the requested stop tag, which the
+   *  federates negotiate via the RTI.
    *  Setting greatest time advance grant needs to modify or remove
+   *  @param stopTag The tag at which to stop, if not the next microstep.
+   *  @returns Whether a stop request was sent to the RTI.
    */
-  protected _shutdown(): void {
+  protected _shutdown(stopTag?: Tag): boolean {
     // Ignore federatate's _shutdown call if stop is requested.
     // The final shutdown should be done by calling super._shutdown.
     if (this.stopRequestInfo.state !== StopRequestState.NOT_SENT) {
-      Log.globalLogger.debug(
-        "Ignoring FederatedApp._shutdown() as stop is already requested to RTI."
+      Log.debug(
+        this,
+        () =>
+          "Ignoring FederatedApp._shutdown() as stop is already requested to RTI."
       );
-      return;
+      return false;
     }
     const endTag = this._getEndOfExecution();
-    if (
-      endTag === undefined ||
-      this.util.getCurrentTag().isSmallerThan(endTag)
-    ) {
-      this.sendRTIStopRequest(this.util.getCurrentTag().getMicroStepsLater(1));
-    } else {
-      Log.globalLogger.debug(
-        "Ignoring FederatedApp._shutdown() since EndOfExecution is already set earlier than current tag." +
-          `currentTag: ${this.util.getCurrentTag()} endTag: ${String(endTag)}`
-      );
+    const next = this.util.getCurrentTag().getMicroStepsLater(1);
+    const tag =
+      stopTag !== undefined && stopTag.isGreaterThan(next) ? stopTag : next;
+    if (endTag === undefined || tag.isSmallerThan(endTag)) {
+      this.sendRTIStopRequest(tag);
+      return true;
     }
+    Log.debug(
+      this,
+      () =>
+        "Ignoring FederatedApp._shutdown() since EndOfExecution is already set earlier than the requested stop tag." +
+        `stopTag: ${tag} endTag: ${String(endTag)}`
+    );
+    return false;
   }
 
   /**
@@ -1396,7 +1396,7 @@ export class FederatedApp extends App {
           this.minDelayFromPhysicalActionToFederateOutput !== null &&
           this.downstreamFedIDs.length > 0
         ) {
-          const physicalTime = getCurrentPhysicalTime();
+          const physicalTime = this.util.getCurrentPhysicalTime();
           if (
             physicalTime
               .add(this.minDelayFromPhysicalActionToFederateOutput)
@@ -1422,7 +1422,7 @@ export class FederatedApp extends App {
             "received from the RTI is less than the timestamp of the " +
             "next event on the event queue"
         );
-        Log.globalLogger.debug("Exiting _next.");
+        Log.debug(this, () => "Exiting _next.");
         return false;
       }
     }
@@ -1445,15 +1445,23 @@ export class FederatedApp extends App {
       ) {
         try {
           r = this._reactionQ.pop();
-          r.doReact();
+          if (!this._execute(r)) {
+            return false;
+          }
         } catch (e) {
           Log.error(this, () => `Exception occurred in reaction: ${r}: ${e}`);
-          // Allow errors in reactions to kill execution.
-          throw e;
+          // Unless the fault policy says otherwise, allow errors in
+          // reactions to kill execution.
+          if (!this._recover(r, e)) {
+            this._abort(r, e);
+            return false;
+          }
         }
       } else {
-        Log.globalLogger.debug(
-          "Max level allowed to advance is higher than the next reaction's priority."
+        Log.debug(
+          this,
+          () =>
+            "Max level allowed to advance is higher than the next reaction's priority."
         );
         return false;
       }
@@ -1463,7 +1471,7 @@ export class FederatedApp extends App {
       // network inputs.
       return false;
     }
-    Log.globalLogger.debug("Finished handling all events at current time.");
+    Log.debug(this, () => "Finished handling all events at current time.");
     return true;
   }
 
@@ -1964,6 +1972,15 @@ export class FederatedApp extends App {
     }
   }
 
+  /**
+   * @override
+   * Checkpoints cannot be restored in federated execution, because the state
+   * of the other federates and the RTI would not be restored along with them.
+   */
+  public restore(checkpoint: Checkpoint): void {
+    throw new Error("Cannot restore a checkpoint of a federate.");
+  }
+
   /**
    * @override
    * Register this federated app with the RTI and request a start time.
@@ -1988,7 +2005,9 @@ export class FederatedApp extends App {
         this.downstreamFedIDs
       );
       this.rtiClient.sendUDPPortNumToRTI(65535);
-      this.rtiClient.requestStartTimeFromRTI(getCurrentPhysicalTime());
+      this.rtiClient.requestStartTimeFromRTI(
+        this.util.getCurrentPhysicalTime()
+      );
     });
 
     this.rtiClient.on("startTime", (startTime: TimeValue) => {
@@ -2001,7 +2020,7 @@ export class FederatedApp extends App {
         Log.info(this, () => Log.hr);
 
         // Set an alarm to start execution at the designated startTime
-        const currentPhysTime = getCurrentPhysicalTime();
+        const currentPhysTime = this.util.getCurrentPhysicalTime();
         let startDelay: TimeValue;
         if (startTime.isEarlierThan(currentPhysTime)) {
           startDelay = TimeValue.secs(0);
@@ -4,6 +4,7 @@
  */
 
 import {Reaction} from "./reaction";
+import type {TimeValue} from "./time";
 import type {Sortable, Variable} from "./types";
 import {Log} from "./util";
 
@@ -414,10 +415,18 @@ export class SortablePrecedenceGraph<
    * working on a copy if false (the default).
    * @param spacing The minimum spacing between the priorities of two nodes that
    * are in a precedence relationship. The default is 100.
+   * @param order Optional function that determines which of two nodes that
+   * are not in a precedence relationship gets the lower priority, returning
+   * a negative number for the first node, a positive number for the second,
+   * and zero if it does not matter.
    * @returns True if priorities were assigned successfully, false if the graph
    * has one or more cycles.
    */
-  updatePriorities(destructive = false, spacing = 100): boolean {
+  updatePriorities(
+    destructive = false,
+    spacing = 100,
+    order?: (a: T, b: T) => number
+  ): boolean {
     // This implements Kahn's algorithm
     const start = new Array<T>();
     let graph: Map<T, Set<T>>;
@@ -439,8 +448,21 @@ export class SortablePrecedenceGraph<
         graph.delete(v);
       }
     }
+    /* Take the next node among the ones that have no dependencies left */
+    const next = (): T | undefined => {
+      if (order === undefined) {
+        return start.shift();
+      }
+      let index = 0;
+      for (let i = 1; i < start.length; i++) {
+        if (order(start[i], start[index]) < 0) {
+          index = i;
+        }
+      }
+      return start.splice(index, 1)[0];
+    };
     /* Sort reactions */
-    for (let n: T | undefined; (n = start.shift()) != null; count += spacing) {
+    for (let n: T | undefined; (n = next()) != null; count += spacing) {
       n.setPriority(count);
       // for each node v with an edge e from n to v do
       for (const [v, e] of graph) {
@@ -471,4 +493,150 @@ export class ReactionGraph extends SortablePrecedenceGraph<
   constructor(pg?: PrecedenceGraph<unknown>) {
     super(Reaction<Variable[]>, pg);
   }
+
+  /**
+   * Update the priorities of the given reactions and the reactions downstream
+   * of them such that every reaction has a higher priority than its upstream
+   * neighbors. The priorities of all other reactions are left untouched, and
+   * priorities are only ever increased.
+   *
+   * @param reactions The reactions of which the dependencies have changed.
+   * @param spacing The minimum spacing between the priorities of two reactions
+   * that are in a precedence relationship. The default is 1.
+   * @returns True if priorities were updated successfully, false if the
+   * reactions downstream of the given ones are part of a cycle.
+   */
+  updatePrioritiesDownstreamOf(
+    reactions: Iterable<Reaction<Variable[]>>,
+    spacing = 1
+  ): boolean {
+    const downstream = this.getDownstreamMap();
+
+    /* Collect the affected reactions */
+    const affected = new Set<Reaction<Variable[]>>();
+    const stack = Array.from(reactions);
+    for (let n: Reaction<Variable[]> | undefined; (n = stack.pop()) != null; ) {
+      if (!affected.has(n)) {
+        affected.add(n);
+        stack.push(...(downstream.get(n) ?? []));
+      }
+    }
+
+    /* Count the affected upstream neighbors of each affected reaction */
+    const pending = new Map<Reaction<Variable[]>, number>();
+    const start = new Array<Reaction<Variable[]>>();
+    for (const v of affected) {
+      let count = 0;
+      for (const u of this.getUpstreamNeighbors(v)) {
+        if (affected.has(u)) count++;
+      }
+      pending.set(v, count);
+      if (count === 0) start.push(v);
+    }
+
+    /* Visit the affected reactions in topological order */
+    let visited = 0;
+    for (
+      let n: Reaction<Variable[]> | undefined;
+      (n = start.shift()) != null;
+
+    ) {
+      visited++;
+      for (const u of this.getUpstreamNeighbors(n)) {
+        if (n.getPriority() < u.getPriority() + spacing) {
+          n.setPriority(u.getPriority() + spacing);
+        }
+      }
+      for (const v of downstream.get(n) ?? []) {
+        const count = (pending.get(v) ?? 0) - 1;
+        pending.set(v, count);
+        if (count === 0) start.push(v);
+      }
+    }
+    return visited === affected.size;
+  }
+
+  /**
+   * Assign priorities like `updatePriorities` does, but among reactions that
+   * are not in a precedence relationship, give the lowest priority to the
+   * one with the earliest deadline (EDF). Reactions inherit the deadlines of
+   * the reactions downstream of them, so a tight deadline also expedites the
+   * reactions that the reaction with the deadline depends on.
+   *
+   * @param destructive Destroy the graph structure if true, leave it in tact
+   * by working on a copy if false (the default).
+   * @param spacing The minimum spacing between the priorities of two
+   * reactions that are in a precedence relationship. The default is 100.
+   * @returns True if priorities were assigned successfully, false if the
+   * graph has one or more cycles.
+   */
+  updatePrioritiesByDeadline(destructive = false, spacing = 100): boolean {
+    const deadlines = this.inferDeadlines();
+    return this.updatePriorities(destructive, spacing, (a, b) => {
+      const da = deadlines.get(a);
+      const db = deadlines.get(b);
+      if (da !== undefined && (db === undefined || da.isEarlierThan(db))) {
+        return -1;
+      }
+      if (db !== undefined && (da === undefined || db.isEarlierThan(da))) {
+        return 1;
+      }
+      return 0;
+    });
+  }
+
+  /**
+   * Return the deadline of each reaction that has one or that has a reaction
+   * with a deadline downstream of it, which is the earliest of those
+   * deadlines.
+   */
+  inferDeadlines(): Map<Reaction<Variable[]>, TimeValue> {
+    const downstream = this.getDownstreamMap();
+    const deadlines = new Map<Reaction<Variable[]>, TimeValue>();
+    const visited = new Set<Reaction<Variable[]>>();
+    const infer = (r: Reaction<Variable[]>): TimeValue | undefined => {
+      if (!visited.has(r)) {
+        visited.add(r);
+        let deadline = r.getDeadline();
+        for (const d of downstream.get(r) ?? []) {
+          const inherited = infer(d);
+          if (
+            inherited !== undefined &&
+            (deadline === undefined || inherited.isEarlierThan(deadline))
+          ) {
+            deadline = inherited;
+          }
+        }
+        if (deadline !== undefined) {
+          deadlines.set(r, deadline);
+        }
+      }
+      return deadlines.get(r);
+    };
+    for (const r of this.getNodes()) {
+      infer(r);
+    }
+    return deadlines;
+  }
+
+  /**
+   * Return a map from reactions to the set of their downstream neighbors.
+   */
+  private getDownstreamMap(): Map<
+    Reaction<Variable[]>,
+    Set<Reaction<Variable[]>>
+  > {
+    const downstream = new Map<
+      Reaction<Variable[]>,
+      Set<Reaction<Variable[]>>
+    >();
+    for (const [v, e] of this.adjacencyMap) {
+      for (const u of e) {
+        const neighbors = downstream.get(u) ?? new Set();
+        neighbors.add(v);
+        downstream.set(u, neighbors);
+      }
+    }
+    return downstream;
+  }
 }
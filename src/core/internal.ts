@@ -8,11 +8,18 @@ export * from "./reaction";
 export * from "./component";
 export * from "./trigger";
 export * from "./action";
+export * from "./watchdog";
+export * from "./mode";
 export * from "./state";
 export * from "./port";
 export * from "./multiport";
 export * from "./reactor";
 export * from "./bank";
+export * from "./delay";
 export * from "./event";
+export * from "./trace";
+export * from "./metrics";
+export * from "./checkpoint";
+export * from "./recording";
 export * from "./cli";
 export * from "./federation";
@@ -0,0 +1,322 @@
+import type {Reaction, Variable} from "./internal";
+
+/**
+ * Summary of the values recorded by a histogram.
+ */
+export interface HistogramSnapshot {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  mean: number;
+  /**
+   * Estimates of the 50th, 90th, and 99th percentiles, each being the upper
+   * bound of the bucket the percentile falls in (or the maximum, if that is
+   * smaller).
+   */
+  p50: number;
+  p90: number;
+  p99: number;
+  /**
+   * The number of values that are less than or equal to each bucket bound
+   * and greater than the previous one. The last bucket is unbounded.
+   */
+  buckets: Array<{le: number; count: number}>;
+}
+
+/**
+ * Metrics of a single reaction.
+ */
+export interface ReactionMetrics {
+  reaction: string;
+  reactor: string;
+  deadlineViolations: number;
+  /**
+   * Execution times, in microseconds of physical time.
+   */
+  executionTime: HistogramSnapshot;
+}
+
+/**
+ * Snapshot of all metrics recorded during the execution of an app.
+ */
+export interface MetricsSnapshot {
+  /**
+   * Metrics of every reaction that was invoked at least once.
+   */
+  reactions: ReactionMetrics[];
+  /**
+   * Number of events on the event queue at each tag, after popping the
+   * events of that tag.
+   */
+  eventQueueSize: HistogramSnapshot;
+  /**
+   * Number of reactions on the reaction queue at each tag, after popping the
+   * events of that tag. Reactions that are triggered by other reactions at
+   * the same tag are not included.
+   */
+  reactionQueueSize: HistogramSnapshot;
+  /**
+   * The amount by which logical time lagged behind physical time at the
+   * start of each tag, in microseconds. Negative if logical time was ahead.
+   */
+  lag: HistogramSnapshot;
+}
+
+/**
+ * Histogram of numeric values with fixed bucket bounds.
+ */
+export class Histogram {
+  private count = 0;
+
+  private sum = 0;
+
+  private min = Infinity;
+
+  private max = -Infinity;
+
+  private readonly counts: number[];
+
+  /**
+   * Create a histogram with the given bucket bounds.
+   * @param bounds Upper bounds of the buckets, in ascending order. Values
+   * greater than the last bound are counted in an additional bucket.
+   */
+  constructor(private readonly bounds: number[]) {
+    this.counts = new Array<number>(bounds.length + 1).fill(0);
+  }
+
+  /**
+   * Create a histogram of which the bucket bounds grow exponentially.
+   * @param start The upper bound of the first bucket.
+   * @param factor The factor between the bounds of consecutive buckets.
+   * @param count The number of bounded buckets.
+   */
+  public static exponential(
+    start: number,
+    factor: number,
+    count: number
+  ): Histogram {
+    const bounds = new Array<number>();
+    for (let bound = start; bounds.length < count; bound *= factor) {
+      bounds.push(bound);
+    }
+    return new Histogram(bounds);
+  }
+
+  /**
+   * Create a histogram for values that can be negative, of which the bucket
+   * bounds grow exponentially away from zero in both directions.
+   * @param start The upper bound of the first bucket above zero.
+   * @param factor The factor between the bounds of consecutive buckets.
+   * @param count The number of bounded buckets on either side of zero.
+   */
+  public static signedExponential(
+    start: number,
+    factor: number,
+    count: number
+  ): Histogram {
+    const bounds = Histogram.exponential(start, factor, count).bounds;
+    return new Histogram([
+      ...bounds.map((bound) => -bound).reverse(),
+      0,
+      ...bounds
+    ]);
+  }
+
+  /**
+   * Record the given value.
+   * @param value The value to record.
+   */
+  public record(value: number): void {
+    let index = this.bounds.findIndex((bound) => value <= bound);
+    if (index < 0) {
+      index = this.bounds.length;
+    }
+    this.counts[index]++;
+    this.count++;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  /**
+   * Return a summary of the values recorded so far.
+   */
+  public snapshot(): HistogramSnapshot {
+    const empty = this.count === 0;
+    return {
+      count: this.count,
+      sum: this.sum,
+      min: empty ? 0 : this.min,
+      max: empty ? 0 : this.max,
+      mean: empty ? 0 : this.sum / this.count,
+      p50: this.percentile(0.5),
+      p90: this.percentile(0.9),
+      p99: this.percentile(0.99),
+      buckets: this.counts.map((count, i) => ({
+        le: i < this.bounds.length ? this.bounds[i] : Infinity,
+        count
+      }))
+    };
+  }
+
+  /**
+   * Return an estimate of the given percentile.
+   * @param fraction The percentile, as a fraction between 0 and 1.
+   */
+  private percentile(fraction: number): number {
+    if (this.count === 0) {
+      return 0;
+    }
+    const rank = Math.ceil(fraction * this.count);
+    let seen = 0;
+    for (let i = 0; i < this.bounds.length; i++) {
+      seen += this.counts[i];
+      if (seen >= rank) {
+        return Math.min(this.bounds[i], this.max);
+      }
+    }
+    return this.max;
+  }
+}
+
+/**
+ * Registry of metrics that are recorded during the execution of an app.
+ */
+export class MetricsRegistry {
+  private readonly reactions = new Map<
+    Reaction<Variable[]>,
+    {executionTime: Histogram; deadlineViolations: number}
+  >();
+
+  private readonly eventQueueSize = Histogram.exponential(1, 2, 16);
+
+  private readonly reactionQueueSize = Histogram.exponential(1, 2, 16);
+
+  private readonly lag = Histogram.signedExponential(1, 2, 26);
+
+  /**
+   * Record an invocation of the given reaction.
+   * @param reaction The reaction that was invoked.
+   * @param executionTime The time it took to execute, in microseconds.
+   * @param late Whether its deadline was violated.
+   */
+  public recordReaction(
+    reaction: Reaction<Variable[]>,
+    executionTime: number,
+    late: boolean
+  ): void {
+    let metrics = this.reactions.get(reaction);
+    if (metrics === undefined) {
+      metrics = {
+        executionTime: Histogram.exponential(1, 2, 21),
+        deadlineViolations: 0
+      };
+      this.reactions.set(reaction, metrics);
+    }
+    metrics.executionTime.record(executionTime);
+    if (late) {
+      metrics.deadlineViolations++;
+    }
+  }
+
+  /**
+   * Record the state of the app at the start of a tag, after popping the
+   * events of that tag. To be invoked once per tag.
+   * @param lag The amount by which logical time lags behind physical time,
+   * in microseconds. Negative if logical time is ahead.
+   * @param eventQueueSize The number of events on the event queue.
+   * @param reactionQueueSize The number of reactions on the reaction queue.
+   */
+  public recordTag(
+    lag: number,
+    eventQueueSize: number,
+    reactionQueueSize: number
+  ): void {
+    this.lag.record(lag);
+    this.eventQueueSize.record(eventQueueSize);
+    this.reactionQueueSize.record(reactionQueueSize);
+  }
+
+  /**
+   * Return a snapshot of the metrics recorded so far. Reactions are listed
+   * in descending order of their total execution time.
+   */
+  public snapshot(): MetricsSnapshot {
+    const reactions = new Array<ReactionMetrics>();
+    for (const [reaction, metrics] of this.reactions) {
+      reactions.push({
+        reaction: reaction.toString(),
+        reactor: reaction.getContainer()._getFullyQualifiedName(),
+        deadlineViolations: metrics.deadlineViolations,
+        executionTime: metrics.executionTime.snapshot()
+      });
+    }
+    reactions.sort((a, b) => b.executionTime.sum - a.executionTime.sum);
+    return {
+      reactions,
+      eventQueueSize: this.eventQueueSize.snapshot(),
+      reactionQueueSize: this.reactionQueueSize.snapshot(),
+      lag: this.lag.snapshot()
+    };
+  }
+
+  /**
+   * Return a table that summarizes the metrics recorded so far.
+   */
+  public summary(): string {
+    const snapshot = this.snapshot();
+    const format = (value: number): string => value.toFixed(1);
+    const rows = [
+      [
+        "Reaction",
+        "Invocations",
+        "Total (us)",
+        "Mean (us)",
+        "p99 (us)",
+        "Max (us)",
+        "Deadline violations"
+      ],
+      ...snapshot.reactions.map((r) => [
+        r.reaction,
+        `${r.executionTime.count}`,
+        format(r.executionTime.sum),
+        format(r.executionTime.mean),
+        format(r.executionTime.p99),
+        format(r.executionTime.max),
+        `${r.deadlineViolations}`
+      ]),
+      [],
+      ["Per tag", "Tags", "", "Mean", "p99", "Max", ""],
+      ...(
+        [
+          ["Event queue size", snapshot.eventQueueSize],
+          ["Reaction queue size", snapshot.reactionQueueSize],
+          ["Lag (us)", snapshot.lag]
+        ] as const
+      ).map(([name, h]) => [
+        name,
+        `${h.count}`,
+        "",
+        format(h.mean),
+        format(h.p99),
+        format(h.max),
+        ""
+      ])
+    ];
+    const widths = rows[0].map((_, i) =>
+      Math.max(...rows.map((row) => (row[i] ?? "").length))
+    );
+    return rows
+      .map((row) =>
+        row
+          .map((cell, i) =>
+            i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])
+          )
+          .join("  ")
+          .trimEnd()
+      )
+      .join("\n");
+  }
+}
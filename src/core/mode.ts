@@ -0,0 +1,132 @@
+import type {
+  Absent,
+  ModeSwitch,
+  Reactor,
+  Runtime,
+  Tag,
+  TaggedEvent
+} from "./internal";
+import {Component} from "./internal";
+
+/**
+ * The way in which a mode is entered.
+ */
+export enum Transition {
+  /**
+   * Enter the mode from its initial state: its timers restart, any events
+   * that were pending when it was last left are discarded, and its contained
+   * reactors return to their initial modes.
+   */
+  RESET = "reset",
+  /**
+   * Enter the mode in the state it was in when it was last left: events that
+   * were pending at that time are rescheduled with the delay that remained
+   * when the mode was left.
+   */
+  HISTORY = "history"
+}
+
+/**
+ * A mode of a reactor. A reactor that declares modes is in exactly one of
+ * them at any given tag; initially, this is the mode declared first. Timers,
+ * actions, watchdogs, reactions, and contained reactors can be attached to a
+ * mode using `Reactor.inMode`, after which they only take effect while that
+ * mode is active. Reactions can switch modes using the handle obtained via
+ * `Reactor.switchable`; the new mode becomes active at the next microstep.
+ */
+export class Mode extends Component {
+  /**
+   * Events of triggers in this mode that were suspended while it was
+   * inactive, along with the tag at which they were suspended.
+   */
+  private readonly suspended = new Array<[TaggedEvent<unknown>, Tag]>();
+
+  /**
+   * Return whether this mode is active, which requires it to be the current
+   * mode of its container and its container to be enabled.
+   */
+  public isActive(): boolean {
+    const container = this._getContainer();
+    return container._getCurrentMode() === this && container._isEnabled();
+  }
+
+  /**
+   * Return the reactor that declares this mode.
+   */
+  public getContainer(): Reactor {
+    return this._getContainer();
+  }
+
+  /**
+   * Hold on to the given event until this mode is entered again.
+   * @param event The event to suspend.
+   * @param tag The tag at which the event is suspended.
+   */
+  public _suspend(event: TaggedEvent<unknown>, tag: Tag): void {
+    this.suspended.push([event, tag]);
+  }
+
+  /**
+   * Return the suspended events of this mode and forget about them.
+   */
+  public _resume(): Array<[TaggedEvent<unknown>, Tag]> {
+    return this.suspended.splice(0);
+  }
+
+  /**
+   * Forget about the suspended events that satisfy the given predicate.
+   * @param predicate The condition for an event to be forgotten about.
+   * @returns The events that were forgotten about.
+   */
+  public _discard(
+    predicate: (event: TaggedEvent<unknown>) => boolean
+  ): Array<TaggedEvent<unknown>> {
+    const discarded = new Array<TaggedEvent<unknown>>();
+    for (let i = this.suspended.length - 1; i >= 0; i--) {
+      const [event] = this.suspended[i];
+      if (predicate(event)) {
+        this.suspended.splice(i, 1);
+        discarded.unshift(event);
+      }
+    }
+    return discarded;
+  }
+
+  /**
+   * Return the suspended events of this mode without forgetting about them.
+   */
+  public _getSuspended(): ReadonlyArray<[TaggedEvent<unknown>, Tag]> {
+    return this.suspended;
+  }
+
+  public asSwitchable(key: symbol | undefined): ModeSwitch {
+    if (this._key === key) {
+      return this.switch;
+    }
+    throw Error("Invalid reference to container.");
+  }
+
+  protected switch = new (class implements ModeSwitch {
+    constructor(private readonly mode: Mode) {}
+
+    get(): boolean | Absent {
+      return this.mode.isActive();
+    }
+
+    set(transition: Transition = Transition.RESET): void {
+      this.mode._getContainer()._requestTransition(this.mode, transition);
+    }
+  })(this);
+
+  /**
+   * Modes do not need access to the runtime object.
+   * @param runtime
+   */
+  public _receiveRuntimeObject(runtime: Runtime): void {
+    throw new Error("Modes do not have access to the runtime object.");
+  }
+
+  public toString(): string {
+    return this._getFullyQualifiedName();
+  }
+}
@@ -31,13 +31,18 @@ export abstract class MultiPort<T> extends Trigger implements MultiRead<T> {
    */
   abstract channel(index: number): IOPort<T>;
 
+  /**
+   * Create a new channel for this multiport.
+   */
+  protected abstract _createChannel(): IOPort<T>;
+
   /**
    * The channels of this multiport.
    */
   protected _channels: Array<IOPort<T>>;
 
   /** @inheritdoc */
-  private readonly _width: number;
+  private _width: number;
 
   /**
    * Given an array of ports (channels), return an array holding the ports'
@@ -109,6 +114,36 @@ export abstract class MultiPort<T> extends Trigger implements MultiRead<T> {
     return this._width;
   }
 
+  /**
+   * Change the number of channels of this multiport by removing channels
+   * from the end or by appending new ones. Only to be invoked by the
+   * container of this multiport, which is responsible for (dis)connecting
+   * the affected channels.
+   * @param width the new number of channels
+   * @returns the channels that were added and the channels that were removed
+   */
+  public _resize(width: number): [Array<IOPort<T>>, Array<IOPort<T>>] {
+    const removed = this._channels.splice(width);
+    const added = new Array<IOPort<T>>();
+    while (this._channels.length < width) {
+      const channel = this._createChannel();
+      this._channels.push(channel);
+      added.push(channel);
+    }
+    this._width = width;
+    return [added, removed];
+  }
+
+  /**
+   * Make the given channels the channels of this multiport again. Only to be
+   * used to undo resizing this multiport.
+   * @param channels the channels of this multiport before it was resized
+   */
+  public _restore(channels: Array<IOPort<T>>): void {
+    this._channels = channels;
+    this._width = channels.length;
+  }
+
   /**
    * Return an array of which the elements represent the current value of
    * each channel, which may either be present or absent (i.e., undefined).
@@ -184,7 +219,11 @@ export abstract class MultiPort<T> extends Trigger implements MultiRead<T> {
     /** @inheritdoc */
     public set(index: number, value: T): void {
       let writableChannel = this.cache[index];
-      if (writableChannel === undefined) {
+      // The channel may have been replaced by resizing the multiport.
+      if (
+        writableChannel === undefined ||
+        writableChannel.getPort() !== this.port._channels[index]
+      ) {
         writableChannel = this.port
           .getContainer()
           .writable(this.port._channels[index]);
@@ -237,6 +276,11 @@ export class InMultiPort<T> extends MultiPort<T> {
       this._channels[i] = new InPort<T>(container);
     }
   }
+
+  /** @inheritdoc */
+  protected _createChannel(): InPort<T> {
+    return new InPort<T>(this.getContainer());
+  }
 }
 
 /**
@@ -254,6 +298,11 @@ export class OutMultiPort<T> extends MultiPort<T> {
     }
   }
 
+  /** @inheritdoc */
+  protected _createChannel(): OutPort<T> {
+    return new OutPort<T>(this.getContainer());
+  }
+
   /** @inheritdoc */
   public channel(index: number): OutPort<T> {
     return this._channels[index];
@@ -128,6 +128,48 @@ export class PrioritySet<P> {
     }
   }
 
+  /**
+   * Remove all elements that satisfy the given predicate from the queue.
+   * @param predicate Function that returns true for elements to remove.
+   * @returns The removed elements, in order of priority.
+   */
+  extract(
+    predicate: (element: PrioritySetElement<P>) => boolean
+  ): Array<PrioritySetElement<P>> {
+    const removed = new Array<PrioritySetElement<P>>();
+    let prev: PrioritySetElement<P> | undefined;
+    let curr = this.head;
+    while (curr != null) {
+      const next: PrioritySetElement<P> | undefined = curr.next;
+      if (predicate(curr)) {
+        if (prev === undefined) {
+          this.head = next;
+        } else {
+          prev.next = next;
+        }
+        curr.next = undefined; // unhook from linked list
+        this.count--;
+        removed.push(curr);
+      } else {
+        prev = curr;
+      }
+      curr = next;
+    }
+    return removed;
+  }
+
+  /**
+   * Return the elements of the queue in order of priority, without removing
+   * them.
+   */
+  toArray(): Array<PrioritySetElement<P>> {
+    const elements = new Array<PrioritySetElement<P>>();
+    for (let curr = this.head; curr != null; curr = curr.next) {
+      elements.push(curr);
+    }
+    return elements;
+  }
+
   /**
    * Return the number of elements in the queue.
    */
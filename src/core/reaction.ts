@@ -66,7 +66,7 @@ export class Reaction<T extends Variable[]>
     private readonly react: (...args: ArgList<T>) => void,
     private deadline?: TimeValue,
     private readonly late: (...args: ArgList<T>) => void = () => {
-      Log.globalLogger.warn("Deadline violation occurred!");
+      Log.warn(reactor, () => "Deadline violation occurred!");
     }
   ) {}
 
@@ -77,6 +77,11 @@ export class Reaction<T extends Variable[]>
    */
   public active = false;
 
+  /**
+   * Number of times the deadline of this reaction was violated.
+   */
+  private deadlineViolations = 0;
+
   /**
    * Return true if this reaction is triggered immediately (by startup or a
    * timer with zero offset).
@@ -126,19 +131,39 @@ export class Reaction<T extends Variable[]>
    * list that was specified upon the construction of this reaction object.
    */
   public doReact(): void {
+    this.invoke();
+  }
+
+  /**
+   * Invoke the react function, or the late function if the deadline of this
+   * reaction has been violated, and return whatever the invoked function
+   * returned. Return undefined without invoking anything if this reaction is
+   * inactive.
+   */
+  protected invoke(): unknown {
     Log.debug(
       this,
       () =>
         ">>> Reacting >>> " + this.constructor.name + " >>> " + this.toString()
     );
-    Log.debug(this, () => `Reaction deadline: ${this.deadline}`);
+    Log.debug(this.reactor, () => `Reaction deadline: ${this.deadline}`);
 
     // If this reaction was loaded onto the reaction queue but the trigger(s)
     // absorbed by a mutation that routed the value(s) elsewhere, then return
     // without invoking the reaction.
     if (!this.active) {
-      return;
+      return undefined;
+    }
+    // Likewise if this reaction belongs to a mode that is inactive.
+    if (
+      this.reactor._getInactiveMode(this as unknown as Reaction<Variable[]>) !==
+      undefined
+    ) {
+      return undefined;
     }
+    // The result is only of interest to asynchronous reactions.
+    const react = this.react as (...args: ArgList<T>) => unknown;
+    const late = this.late as (...args: ArgList<T>) => unknown;
     // Test if this reaction has a deadline which has been violated.
     // This is the case if the reaction has a defined timeout and
     // logical time + timeout < physical time
@@ -149,9 +174,10 @@ export class Reaction<T extends Variable[]>
         .getLaterTag(this.deadline)
         .isSmallerThan(new Tag(this.sandbox.util.getCurrentPhysicalTime(), 0))
     ) {
-      this.late.apply(this.sandbox, this.args); // late
+      this.deadlineViolations++;
+      return late.apply(this.sandbox, this.args); // late
     } else {
-      this.react.apply(this.sandbox, this.args); // on time
+      return react.apply(this.sandbox, this.args); // on time
     }
   }
 
@@ -167,6 +193,13 @@ export class Reaction<T extends Variable[]>
     return this;
   }
 
+  /**
+   * Return the deadline of this reaction, or undefined if it has none.
+   */
+  public getDeadline(): TimeValue | undefined {
+    return this.deadline;
+  }
+
   /**
    * Set for reaction priority, to be used only by the runtime environment.
    * The priority of each reaction is determined on the basis of its
@@ -177,6 +210,21 @@ export class Reaction<T extends Variable[]>
     this.priority = priority;
   }
 
+  /**
+   * Return the number of times the deadline of this reaction was violated,
+   * which is the number of times its `late` function was invoked.
+   */
+  public getDeadlineViolations(): number {
+    return this.deadlineViolations;
+  }
+
+  /**
+   * Return the reactor that this reaction belongs to.
+   */
+  public getContainer(): Reactor {
+    return this.reactor;
+  }
+
   /**
    * Return string representation of the reaction.
    */
@@ -189,6 +237,47 @@ export class Reaction<T extends Variable[]>
 
 export class Procedure<T extends Variable[]> extends Reaction<T> {}
 
+/**
+ * A reaction of which the `react` function returns a promise. Logical time
+ * does not advance, and no other reactions are executed, until the promise
+ * has settled, so values written to ports by the reaction after it awaited
+ * something are still observed at the tag at which the reaction was invoked.
+ */
+export class AsyncReaction<T extends Variable[]> extends Reaction<T> {
+  constructor(
+    reactor: Reactor,
+    sandbox: ReactionSandbox,
+    trigs: Variable[],
+    args: [...ArgList<T>],
+    react: (...args: ArgList<T>) => Promise<void>,
+    deadline?: TimeValue,
+    late?: (...args: ArgList<T>) => void
+  ) {
+    super(
+      reactor,
+      sandbox,
+      trigs,
+      args,
+      react as (...args: ArgList<T>) => void,
+      deadline,
+      late
+    );
+  }
+
+  /**
+   * Invoke this reaction and return a promise that settles once the reaction
+   * has completed. Return undefined if the reaction completed immediately
+   * (e.g., because it was inactive or its `late` function was synchronous).
+   */
+  public doReactAsync(): Promise<void> | undefined {
+    const result = this.invoke();
+    if (result instanceof Promise) {
+      return result as Promise<void>;
+    }
+    return undefined;
+  }
+}
+
 export class Mutation<T extends Variable[]> extends Reaction<T> {
   readonly parent: Reactor;
 
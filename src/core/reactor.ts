@@ -13,13 +13,19 @@ import {
   type Read,
   type Sched,
   type Variable,
+  type Watch,
+  type TimerControl,
+  type ModeSwitch,
   type Write,
   type TriggerManager,
+  type Bank,
   ReactionGraph,
   TimeValue,
   Tag,
   Origin,
   getCurrentPhysicalTime,
+  type Clock,
+  RealClock,
   Alarm,
   PrioritySet,
   Log,
@@ -27,6 +33,7 @@ import {
   Reaction,
   Mutation,
   Procedure,
+  AsyncReaction,
   SchedulableAction,
   TaggedEvent,
   Component,
@@ -41,12 +48,28 @@ import {
   WritablePort,
   Startup,
   Shutdown,
+  Watchdog,
+  Mode,
+  Transition,
   WritableMultiPort,
   Dummy,
-  ConnectablePort
+  ConnectablePort,
+  Delay,
+  Tracer,
+  MetricsRegistry,
+  type MetricsSnapshot,
+  State,
+  CodecRegistry,
+  CHECKPOINT_VERSION,
+  type Checkpoint,
+  type Codec,
+  type EncodedEvent,
+  type EncodedTimer,
+  type EncodedValue,
+  Recorder
 } from "./internal";
+import type {Logger} from "pino";
 import {v4 as uuidv4} from "uuid";
-import {Bank} from "./bank";
 
 // Set the default log level.
 Log.setLevel(Log.LogLevel.ERROR);
@@ -74,6 +97,148 @@ export enum CanConnectResult {
   MUTATION_CAUSALITY_LOOP = "New connection will change the causal effect of the mutation that triggered this connection."
 }
 
+/**
+ * Options for connections between ports.
+ */
+export interface ConnectionOptions {
+  /**
+   * Logical delay of the connection. Values sent along a delayed connection
+   * arrive at the tag at which they were sent, delayed by this amount of
+   * time, or at the next microstep if the delay is zero.
+   */
+  after?: TimeValue;
+
+  /**
+   * Whether the connection is physical. Values sent along a physical
+   * connection arrive at a tag derived from the physical time at which they
+   * arrive, increased by the delay of the connection, if any. Like the events
+   * of other physical actions, their arrival is recorded and replayed by
+   * `enableRecording` and `enableReplay`. Physical connections between
+   * federates do not use this option, but a `NetworkReceiver` with a
+   * network input action of physical origin instead.
+   */
+  physical?: boolean;
+}
+
+/**
+ * Policy that determines what happens when a reaction throws an exception.
+ */
+export enum FaultPolicy {
+  /**
+   * Rethrow the exception, which terminates execution.
+   */
+  ABORT = "abort",
+  /**
+   * Report the error using `util.reportError` and continue execution.
+   */
+  REPORT = "report",
+  /**
+   * Route the error to the fault handler of the reactor that contains the
+   * failing reaction (or, if it has none, that of the nearest container that
+   * has one), and continue execution.
+   */
+  HANDLE = "handle"
+}
+
+/**
+ * Policy that determines the order in which reactions that are staged at the
+ * same tag execute, as far as their dependencies leave it open.
+ */
+export enum SchedulingPolicy {
+  /**
+   * Execute independent reactions in an arbitrary but fixed order.
+   */
+  TOPOLOGICAL = "topological",
+  /**
+   * Execute independent reactions in order of their deadlines, earliest
+   * deadline first. Reactions inherit the deadlines of the reactions
+   * downstream of them.
+   */
+  EDF = "edf"
+}
+
+/**
+ * Description of an exception thrown by a reaction, as passed to a fault
+ * handler.
+ */
+export interface Fault {
+  /**
+   * Fully qualified name of the reaction that threw the exception.
+   */
+  reaction: string;
+  /**
+   * The tag at which the exception was thrown.
+   */
+  tag: Tag;
+  /**
+   * The exception that was thrown.
+   */
+  error: unknown;
+}
+
+/**
+ * The reason why the execution of an app ended.
+ */
+export enum TerminationReason {
+  /**
+   * The execution timeout of the app elapsed.
+   */
+  TIMEOUT = "timeout",
+  /**
+   * A stop was requested by a reaction using `util.requestStop` or from
+   * outside the app using `App.stop`.
+   */
+  STOP = "stop",
+  /**
+   * The event queue became empty and the app was not kept alive.
+   */
+  EMPTY_QUEUE = "empty queue",
+  /**
+   * A stop was requested because of an error, or a reaction threw an
+   * exception that aborted execution.
+   */
+  ERROR = "error"
+}
+
+/**
+ * Summary of the execution of an app, as returned by `App.run`.
+ */
+export interface ExecutionReport {
+  /**
+   * The tag at which execution ended.
+   */
+  tag: Tag;
+  /**
+   * The physical time that elapsed between the start and the end of
+   * execution.
+   */
+  elapsedPhysicalTime: TimeValue;
+  /**
+   * Whether any errors were reported during execution.
+   */
+  errored: boolean;
+  /**
+   * The messages of the reported errors, if any.
+   */
+  errorMessage: string | undefined;
+  reason: TerminationReason;
+}
+
+/**
+ * Description of a tag processed by an app, as passed to step handlers.
+ */
+export interface StepReport {
+  /**
+   * The tag that was processed.
+   */
+  tag: Tag;
+  /**
+   * Fully qualified names of the reactions that were invoked at the tag, in
+   * the order of their invocation.
+   */
+  reactions: string[];
+}
+
 /**
  * Abstract class for a schedulable action. It is intended as a wrapper for a
  * regular action. In addition to a get method, it also has a schedule method
@@ -99,6 +264,8 @@ export class Parameter<T> implements Read<T> {
  * Whenever this timer's event comes off the event queue, it will
  * reschedule the event at the current logical time + period in the future. A 0
  * period indicates the timer's event is a one-off and should not be rescheduled.
+ * Reactions can change the period of a timer, pause it, or resume it using
+ * the handle obtained via `Reactor.controllable`.
  */
 export class Timer extends ScheduledTrigger<Tag> implements Read<Tag> {
   period: TimeValue;
@@ -149,6 +316,103 @@ export class Timer extends ScheduledTrigger<Tag> implements Read<Tag> {
       return undefined;
     }
   }
+
+  /**
+   * Return whether this timer has been paused by a reaction.
+   */
+  public _isPaused(): boolean {
+    return this.control.isPaused();
+  }
+
+  /**
+   * Set the period of this timer and whether it is paused without affecting
+   * its pending events. Only to be used to restore a checkpoint.
+   * @param period The period of the timer.
+   * @param paused Whether the timer is paused.
+   */
+  public _restore(period: TimeValue, paused: boolean): void {
+    this.period = period;
+    this.control.setPaused(paused);
+  }
+
+  public asControllable(key: symbol | undefined): TimerControl {
+    if (this._key === key) {
+      return this.control;
+    }
+    throw Error("Invalid reference to container.");
+  }
+
+  protected control = new (class implements TimerControl {
+    /**
+     * Whether the timer has been paused.
+     */
+    private paused = false;
+
+    constructor(private readonly timer: Timer) {}
+
+    get(): Tag | Absent {
+      return this.timer.get();
+    }
+
+    setPeriod(period: TimeValue | 0): void {
+      const previous = this.timer.period;
+      this.timer.period =
+        period instanceof TimeValue ? period : TimeValue.secs(0);
+      const runtime = this.timer.runtime;
+      // Timers with a zero offset first fire at startup without an event.
+      const last =
+        this.timer.tag ??
+        (this.timer.offset.isZero() ? runtime.util.getStartTag() : undefined);
+      if (this.paused || last === undefined) {
+        // The next event, if any, is not determined by the period.
+        return;
+      }
+      const pending = runtime.pending(this.timer);
+      const periodic = last.getLaterTag(previous);
+      if (
+        pending.some((e) => !e.tag.isSimultaneousWith(periodic)) ||
+        (pending.length === 0 && !previous.isZero())
+      ) {
+        // The next event was scheduled by resuming or resetting the timer,
+        // or the timer has been unset.
+        return;
+      }
+      if (this.timer.period.isZero()) {
+        // Keep the next event, after which the timer is not rescheduled.
+        return;
+      }
+      runtime.cancel(this.timer);
+      let tag = last.getLaterTag(this.timer.period);
+      const current = runtime.util.getCurrentTag();
+      if (!tag.isGreaterThan(current)) {
+        tag = current.getLaterTag(TimeValue.zero());
+      }
+      runtime.schedule(new TaggedEvent(this.timer, tag, tag));
+    }
+
+    pause(): void {
+      this.timer.runtime.cancel(this.timer);
+      this.paused = true;
+    }
+
+    resume(phase: TimeValue | 0 = 0): void {
+      const runtime = this.timer.runtime;
+      runtime.cancel(this.timer);
+      this.paused = false;
+      const tag = runtime.util
+        .getCurrentTag()
+        .getLaterTag(phase instanceof TimeValue ? phase : TimeValue.zero());
+      runtime.schedule(new TaggedEvent(this.timer, tag, tag));
+    }
+
+    isPaused(): boolean {
+      return this.paused;
+    }
+
+    setPaused(paused: boolean): void {
+      this.paused = paused;
+    }
+  })(this);
 }
 
 /**
@@ -174,6 +438,12 @@ export abstract class Reactor extends Component {
     Port<unknown> | Reaction<Variable[]>
   >();
 
+  /**
+   * The delay reactors inserted by this reactor into delayed and physical
+   * connections, which are not properties of it, along with their names.
+   */
+  private readonly _delays = new Map<Reactor, string>();
+
   /**
    * The runtime object, which has a collection of privileged functions that are passed down from the
    * container.
@@ -186,11 +456,47 @@ export abstract class Reactor extends Component {
    */
   private readonly _bankIndex: number;
 
+  /**
+   * Index of the member of a bank contained by this reactor that is
+   * currently being constructed, if any.
+   */
+  private _bankMemberIndex: number | undefined;
+
+  /**
+   * Construct a member of a bank contained by this reactor, which obtains
+   * its bank index from this reactor during its construction.
+   * @param index The index of the member in the bank.
+   * @param construct Function that constructs the member.
+   */
+  public _constructBankMember<T extends Reactor>(
+    index: number,
+    construct: () => T
+  ): T {
+    const previous = this._bankMemberIndex;
+    this._bankMemberIndex = index;
+    try {
+      return construct();
+    } finally {
+      this._bankMemberIndex = previous;
+    }
+  }
+
   /**
    * Return the location of the reactor instance in a bank,
-   * if it is a member of one; return -1 otherwise.
+   * if it is a member of one; return -1 otherwise. For banks nested in
+   * banks, a depth can be given to obtain the location of the container
+   * that many levels up the hierarchy instead.
+   * @param depth Optional. Defaults to 0. The number of levels up the
+   * hierarchy at which to find the bank member.
    */
-  public getBankIndex(): number {
+  public getBankIndex(depth = 0): number {
+    if (depth > 0) {
+      const container = this._getContainer();
+      if (container === this) {
+        return -1;
+      }
+      return container.getBankIndex(depth - 1);
+    }
     if (this._bankIndex === undefined) {
       return -1;
     }
@@ -250,6 +556,50 @@ export abstract class Reactor extends Component {
    */
   private _mutationScope: MutationSandbox;
 
+  /**
+   * The fault policy of this reactor. If undefined, the policy of the
+   * container applies.
+   */
+  private _faultPolicy: FaultPolicy | undefined;
+
+  /**
+   * Action that triggers the fault handler of this reactor, if it has one,
+   * along with the faults that are yet to be handled.
+   */
+  private _faults: {action: Action<null>; pending: Fault[]} | undefined;
+
+  /**
+   * Functions to invoke once this reactor has been torn down.
+   */
+  private readonly _teardownHandlers = new Array<() => void>();
+
+  /**
+   * The modes of this reactor, in order of declaration.
+   */
+  private readonly _modes = new Array<Mode>();
+
+  /**
+   * The current mode of this reactor, if it has any modes.
+   */
+  private _currentMode: Mode | undefined;
+
+  /**
+   * The modes that components and reactions of this reactor are attached to.
+   * Anything not in this map is not attached to a mode.
+   */
+  private readonly _modeOf = new Map<Component | Reaction<Variable[]>, Mode>();
+
+  /**
+   * The mode that components and reactions that are being declared get
+   * attached to, if any.
+   */
+  private _declaringMode: Mode | undefined;
+
+  /**
+   * The mode transition that was requested at the current tag, if any.
+   */
+  private _pendingTransition: [Mode, Transition] | undefined;
+
   /**
    * Receive the runtime object from the container of this reactor.
    * Invoking this method in any user-written code will result in a
@@ -291,6 +641,15 @@ export abstract class Reactor extends Component {
     if (component !== this && !this._keyChain.has(component)) {
       this._keyChain.set(component, key);
     }
+    if (component instanceof Mode) {
+      this._modes.push(component);
+      this._currentMode ??= component;
+    } else if (
+      this._declaringMode !== undefined &&
+      (component instanceof ScheduledTrigger || component instanceof Reactor)
+    ) {
+      this._modeOf.set(component, this._declaringMode);
+    }
   }
 
   public _requestRuntimeObject(component: Component): void {
@@ -393,6 +752,7 @@ export abstract class Reactor extends Component {
       return this._keyChain.get(component);
     } else if (
       !(component instanceof Action) &&
+      !(component instanceof Watchdog) &&
       component._isContainedByContainerOf(this)
     ) {
       const owner = component.getContainer();
@@ -410,15 +770,24 @@ export abstract class Reactor extends Component {
   /**
    * Mark this reactor for deletion, trigger all of its shutdown reactions
    * and mutations, and also delete all of the reactors that this reactor
-   * contains.
+   * contains. All of this is undone if the mutation that deleted this
+   * reactor is rolled back.
    */
   private _delete(): void {
     // console.log("Marking for deletion: " + this._getFullyQualifiedName())
     this._runtime.delete(this);
+    const present = this.shutdown.isPresent();
     this.shutdown.update(
       new TaggedEvent(this.shutdown, this.util.getCurrentTag(), null)
     );
-    // this._findOwnReactors().forEach(r => r._delete())
+    if (!present) {
+      this._runtime.recordChange([], () => {
+        this.shutdown._retract();
+      });
+    }
+    this._getOwnReactors().forEach((r) => {
+      r._delete();
+    });
   }
 
   /**
@@ -431,10 +800,10 @@ export abstract class Reactor extends Component {
     constructor(private readonly reactor: Reactor) {
       this.reactor = reactor;
       this.util = reactor.util;
-      this.getBankIndex = () => reactor.getBankIndex();
+      this.getBankIndex = (depth?: number) => reactor.getBankIndex(depth);
     }
 
-    getBankIndex: () => number;
+    getBankIndex: (depth?: number) => number;
 
     /**
      *
@@ -444,15 +813,16 @@ export abstract class Reactor extends Component {
 
     public connect<R, S extends R>(
       src: ConnectablePort<S>,
-      dst: ConnectablePort<R>
+      dst: ConnectablePort<R>,
+      options?: ConnectionOptions
     ): void;
     public connect<A extends T, R, T, S extends R>(
       src: CallerPort<A, R>,
       dst: CalleePort<T, S>
     ): void;
     public connect<A extends T, R, T, S extends R>(
-      ...[src, dst]:
-        | [ConnectablePort<S>, ConnectablePort<R>]
+      ...[src, dst, options]:
+        | [ConnectablePort<S>, ConnectablePort<R>, ConnectionOptions?]
         | [CallerPort<A, R>, CalleePort<T, S>]
     ): void {
       if (src instanceof CallerPort && dst instanceof CalleePort) {
@@ -461,7 +831,7 @@ export abstract class Reactor extends Component {
         src instanceof ConnectablePort &&
         dst instanceof ConnectablePort
       ) {
-        this.reactor._connect(src.getPort(), dst.getPort());
+        this.reactor._connect(src.getPort(), dst.getPort(), options);
       } else {
         throw Error(
           "Logically unreachable code: src and dst type mismatch, Caller(ee) port cannot be connected to IOPort."
@@ -495,6 +865,51 @@ export abstract class Reactor extends Component {
     public delete(reactor: Reactor): void {
       reactor._delete();
     }
+
+    public resizeMultiPort<T>(
+      port: MultiPort<T>,
+      width: number,
+      connect?: (
+        this: MutationSandbox,
+        channel: IOPort<T>,
+        index: number
+      ) => void
+    ): void {
+      const owner = port.getContainer();
+      if (owner !== this.reactor && owner._getContainer() !== this.reactor) {
+        throw new Error(`Cannot resize ${port} from ${this.reactor}.`);
+      }
+      const start = port.width();
+      this.reactor._resizeMultiPort(port, width).forEach((channel, i) => {
+        connect?.call(this, channel, start + i);
+      });
+    }
+
+    public resizeBank<T extends Reactor, S>(
+      bank: Bank<T, S>,
+      width: number,
+      connect?: (this: MutationSandbox, member: T, index: number) => void
+    ): void {
+      if (bank.getContainer() !== this.reactor) {
+        throw new Error(
+          `Cannot resize a bank of ${bank.getContainer()} from ${this.reactor}.`
+        );
+      }
+      const previous = bank.all().slice();
+      const [added, removed] = bank._resize(width);
+      // Members added at runtime remove themselves and removed members are
+      // restored if this mutation is rolled back.
+      this.reactor._runtime.recordChange([], () => {
+        bank._restore(previous);
+      });
+      // Removed members are deleted at the end of the current tag.
+      removed.forEach((member) => {
+        member._delete();
+      });
+      added.forEach((member, i) => {
+        connect?.call(this, member, previous.length + i);
+      });
+    }
   };
 
   /**
@@ -503,11 +918,11 @@ export abstract class Reactor extends Component {
   private readonly _reactionSandbox = class implements ReactionSandbox {
     public util: UtilityFunctions;
 
-    public getBankIndex: () => number;
+    public getBankIndex: (depth?: number) => number;
 
     constructor(public reactor: Reactor) {
       this.util = reactor.util;
-      this.getBankIndex = () => reactor.getBankIndex();
+      this.getBankIndex = (depth?: number) => reactor.getBankIndex(depth);
     }
   };
 
@@ -517,13 +932,7 @@ export abstract class Reactor extends Component {
    */
   constructor(container: Reactor | null) {
     super(container);
-    this._bankIndex = -1;
-    if (container !== null) {
-      const index = Bank.initializationMap.get(container);
-      if (index !== undefined) {
-        this._bankIndex = index;
-      }
-    }
+    this._bankIndex = container?._bankMemberIndex ?? -1;
 
     this._linkToRuntimeObject();
     this.shutdown = new Shutdown(this);
@@ -548,17 +957,14 @@ export abstract class Reactor extends Component {
       });
     });
 
-    // If this reactor was created at runtime, simply set the priority of
-    // the default to the priority of from the last mutation of its
-    // container plus one. Subsequent reactions and mutations that are added
-    // will get a priority relative to this one.
-    // FIXME: If any of the assigned priorities is larger than any downstream
-    // reaction, then the priorities of those downstream reactions must be
-    // increased.
+    // If this reactor was created at runtime, it is removed again if the
+    // mutation that created it is rolled back. The priorities of its
+    // reactions and mutations are assigned once the mutation has completed.
     if (!(this instanceof App) && this._runtime.isRunning()) {
-      const toDependOn = this._getContainer()._getLastMutation();
-      if (toDependOn != null)
-        this._mutations[0].setPriority(toDependOn.getPriority() + 1);
+      this._runtime.recordChange([], () => {
+        this._unsetTimers();
+        this._unplug();
+      });
     }
   }
 
@@ -602,58 +1008,378 @@ export abstract class Reactor extends Component {
     throw new Error("Reaction is not listed.");
   }
 
-  protected schedulable<T>(action: Action<T>): Sched<T> {
-    return action.asSchedulable(this._getKey(action));
+  /**
+   * Set the policy that determines what happens when a reaction of this
+   * reactor, or of any contained reactor that does not have a policy of its
+   * own, throws an exception.
+   * @param policy The fault policy.
+   */
+  protected setFaultPolicy(policy: FaultPolicy): void {
+    this._faultPolicy = policy;
   }
 
-  private _recordDeps<T extends Variable[]>(reaction: Reaction<T>): void {
-    // Add a dependency on the previous reaction or mutation, if it exists.
-    const prev = this._getLastReactionOrMutation();
-    if (prev != null) {
-      this._dependencyGraph.addEdge(
-        prev,
-        reaction as unknown as Reaction<Variable[]>
+  /**
+   * Return the fault policy that applies to the reactions of this reactor.
+   * Absent any policy set on this reactor or its containers, it is
+   * `FaultPolicy.ABORT`.
+   */
+  public _getFaultPolicy(): FaultPolicy {
+    if (this._faultPolicy !== undefined) {
+      return this._faultPolicy;
+    }
+    const container = this._getContainer();
+    if (container === this) {
+      return FaultPolicy.ABORT;
+    }
+    return container._getFaultPolicy();
+  }
+
+  /**
+   * Add a fault handler to this reactor. Under `FaultPolicy.HANDLE`, the
+   * handler is invoked for each exception thrown by a reaction of this
+   * reactor, or of a contained reactor that has no fault handler of its
+   * own. The handler executes one microstep after the failing reaction. A
+   * reactor can have at most one fault handler. If the handler itself throws
+   * an exception, execution is aborted.
+   *
+   * @param args
+   * @param handler
+   */
+  protected addFaultHandler<T extends Variable[]>(
+    args: [...ArgList<T>],
+    handler: (this: ReactionSandbox, fault: Fault, ...args: ArgList<T>) => void
+  ): void {
+    if (this._faults !== undefined) {
+      throw new Error(
+        `${this._getFullyQualifiedName()} already has a fault handler.`
       );
     }
+    const action = new Action<null>(this, Origin.logical);
+    const pending = new Array<Fault>();
+    this._faults = {action, pending};
+    this.addReaction([action], args, function (this, ...args) {
+      for (const fault of pending.splice(0)) {
+        handler.call(this, fault, ...args);
+      }
+    });
+  }
+
+  /**
+   * Pass the given fault to the fault handler of this reactor or, if it has
+   * none, to that of its nearest container that has one.
+   * @param fault The fault to handle.
+   * @returns Whether a fault handler was found.
+   */
+  public _handleFault(fault: Fault): boolean {
+    if (this._faults !== undefined) {
+      this._faults.pending.push(fault);
+      this.schedulable(this._faults.action).schedule(0, null);
+      return true;
+    }
+    const container = this._getContainer();
+    if (container === this) {
+      return false;
+    }
+    return container._handleFault(fault);
+  }
 
-    // FIXME: Add a dependency on the last mutation that the owner of this reactor
-    // has. How do we know that it is the last? We have a "lastCaller" problem here.
-    // Probably better to solve this at the level of the dependency graph with a function
-    // that allows for a link to be updated.
+  /**
+   * Report whether the given reaction is the fault handler of this reactor.
+   * @param reaction A reaction of this reactor.
+   */
+  public _isFaultHandler(reaction: Reaction<Variable[]>): boolean {
+    return (
+      this._faults !== undefined && reaction.trigs.includes(this._faults.action)
+    );
+  }
 
-    // Set up the triggers.
-    for (const t of reaction.trigs) {
-      // Link the trigger to the reaction.
-      if (t instanceof Trigger) {
-        t.getManager(this._getKey(t)).addReaction(
-          reaction as unknown as Reaction<Variable[]>
-        );
-      } else if (t instanceof Array) {
-        t.forEach((trigger) => {
-          if (trigger instanceof Trigger) {
-            trigger
-              .getManager(this._getKey(trigger))
-              .addReaction(reaction as unknown as Reaction<Variable[]>);
-          } else {
-            throw new Error("Non-Trigger included in Triggers list.");
+  /**
+   * Add a handler to be invoked when this reactor is torn down, which
+   * happens at the end of the tag at which it was deleted. The handler is
+   * invoked outside of any reaction, after the timers, actions, and
+   * connections of this reactor have been removed, and is meant for
+   * releasing resources such as sockets or file handles. It is also invoked
+   * when execution ends, but then the reactor is left in place.
+   *
+   * @param handler
+   */
+  protected addTeardownHandler(handler: () => void): void {
+    this._teardownHandlers.push(handler);
+  }
+
+  /**
+   * Remove this deleted reactor from the app: cancel the pending events of
+   * its timers and actions, disarm its watchdogs, sever its connections,
+   * deregister it from its container, and invoke its teardown handlers.
+   * Only to be invoked by the runtime at the end of the tag at which this
+   * reactor was deleted.
+   */
+  public _teardown(): void {
+    Log.debug(this, () => `Tearing down ${this}.`);
+    this._unsetTimers();
+    for (const component of this._keyChain.keys()) {
+      if (component instanceof ScheduledTrigger) {
+        this._runtime.cancel(component);
+      } else if (component instanceof Watchdog) {
+        this._runtime.disarm(component);
+      }
+    }
+    const container = this._getContainer();
+    for (const port of this._findOwnPorts()) {
+      if (port instanceof IOPort) {
+        for (const src of container._dependencyGraph.getUpstreamNeighbors(
+          port
+        )) {
+          if (src instanceof IOPort) {
+            container._uncheckedDisconnect(src, port);
           }
-        });
+        }
+        container._uncheckedDisconnect(port);
       }
+    }
+    this._unplug();
+    this._invokeTeardownHandlers();
+  }
 
-      // Also record this trigger as a dependency.
-      if (t instanceof IOPort) {
-        this._dependencyGraph.addEdge(
-          t,
-          reaction as unknown as Reaction<Variable[]>
+  /**
+   * Invoke the teardown handlers of this reactor.
+   */
+  public _invokeTeardownHandlers(): void {
+    for (const handler of this._teardownHandlers) {
+      try {
+        handler();
+      } catch (e) {
+        Log.error(
+          this,
+          () => `Exception occurred in teardown of ${this}: ${e}`
         );
-      } else if (t instanceof MultiPort) {
-        t.channels().forEach((channel) => {
-          this._dependencyGraph.addEdge(
-            channel,
-            reaction as unknown as Reaction<Variable[]>
-          );
-        });
-      } else if (t instanceof Array) {
+      }
+    }
+  }
+
+  protected schedulable<T>(action: Action<T>): Sched<T> {
+    return action.asSchedulable(this._getKey(action));
+  }
+
+  protected watchable(watchdog: Watchdog): Watch {
+    return watchdog.asWatchable(this._getKey(watchdog));
+  }
+
+  protected controllable(timer: Timer): TimerControl {
+    return timer.asControllable(this._getKey(timer));
+  }
+
+  protected switchable(mode: Mode): ModeSwitch {
+    return mode.asSwitchable(this._keyChain.get(mode));
+  }
+
+  /**
+   * Attach the timers, actions, watchdogs, reactions, and contained reactors
+   * that are created by the given function to the given mode.
+   * @param mode A mode of this reactor.
+   * @param declare Function that declares the contents of the mode.
+   */
+  protected inMode(mode: Mode, declare: () => void): void {
+    if (!mode._isContainedBy(this)) {
+      throw new Error(`${mode} is not a mode of ${this}.`);
+    }
+    if (this._declaringMode !== undefined) {
+      throw new Error("Modes cannot be declared within one another.");
+    }
+    this._declaringMode = mode;
+    try {
+      declare();
+    } finally {
+      this._declaringMode = undefined;
+    }
+  }
+
+  /**
+   * Attach the given reaction to the mode being declared, if any.
+   * @param reaction The reaction to attach.
+   */
+  private _recordMode(reaction: Reaction<Variable[]>): void {
+    if (this._declaringMode !== undefined) {
+      this._modeOf.set(reaction, this._declaringMode);
+    }
+  }
+
+  /**
+   * Return the current mode of this reactor, or undefined if it has none.
+   */
+  public _getCurrentMode(): Mode | undefined {
+    return this._currentMode;
+  }
+
+  /**
+   * Make the given mode the current mode of this reactor without taking a
+   * transition. Only to be used to restore a checkpoint.
+   * @param mode A mode of this reactor.
+   */
+  public _setCurrentMode(mode: Mode): void {
+    this._currentMode = mode;
+  }
+
+  /**
+   * Return whether this reactor is enabled, meaning that it is not (directly
+   * or indirectly) contained by a mode that is inactive.
+   */
+  public _isEnabled(): boolean {
+    const container = this._getContainer();
+    return container === this || container._getInactiveMode(this) === undefined;
+  }
+
+  /**
+   * Return the innermost inactive mode that the given member of this
+   * reactor is (directly or indirectly) attached to, or undefined if the
+   * member is enabled.
+   * @param member A component or reaction of this reactor.
+   */
+  public _getInactiveMode(
+    member: Component | Reaction<Variable[]>
+  ): Mode | undefined {
+    const mode = this._modeOf.get(member);
+    if (mode !== undefined && mode !== this._currentMode) {
+      return mode;
+    }
+    const container = this._getContainer();
+    if (container === this) {
+      return undefined;
+    }
+    return container._getInactiveMode(this);
+  }
+
+  /**
+   * Return whether the given member of this reactor is (directly or
+   * indirectly) attached to the given mode.
+   * @param member A component of this reactor.
+   * @param mode The mode to check.
+   */
+  public _isInMode(member: Component, mode: Mode): boolean {
+    if (this._modeOf.get(member) === mode) {
+      return true;
+    }
+    const container = this._getContainer();
+    if (container === this) {
+      return false;
+    }
+    return container._isInMode(this, mode);
+  }
+
+  /**
+   * Request a transition to the given mode at the end of the current tag.
+   * @param mode The mode to switch to.
+   * @param transition The way in which to enter the mode.
+   */
+  public _requestTransition(mode: Mode, transition: Transition): void {
+    this._pendingTransition = [mode, transition];
+    this._runtime.transition(this);
+  }
+
+  /**
+   * Switch to the mode of the requested transition, if any, and return it.
+   */
+  public _takeTransition(): [Mode, Transition] | undefined {
+    const transition = this._pendingTransition;
+    this._pendingTransition = undefined;
+    if (transition !== undefined) {
+      this._currentMode = transition[0];
+    }
+    return transition;
+  }
+
+  /**
+   * Restart the timers attached to the given mode, and reset the reactors
+   * attached to it.
+   * @param mode A mode of this reactor.
+   */
+  public _resetMode(mode: Mode): void {
+    for (const [member, m] of this._modeOf) {
+      if (m !== mode) {
+        continue;
+      }
+      if (member instanceof Timer) {
+        this._restartTimer(member);
+      } else if (member instanceof Reactor) {
+        member._reset();
+      }
+    }
+  }
+
+  /**
+   * Return this reactor and the reactors it contains to their initial modes,
+   * discard all of their suspended events, and restart all of their timers.
+   */
+  private _reset(): void {
+    for (const mode of this._modes) {
+      mode._resume();
+    }
+    this._currentMode = this._modes[0];
+    for (const component of this._keyChain.keys()) {
+      if (component instanceof Timer) {
+        this._restartTimer(component);
+      } else if (component instanceof Reactor) {
+        component._reset();
+      }
+    }
+  }
+
+  /**
+   * Schedule the first event of the given timer relative to the current tag.
+   * @param timer A timer of this reactor.
+   */
+  private _restartTimer(timer: Timer): void {
+    this.controllable(timer).resume(timer.offset);
+  }
+
+  private _recordDeps<T extends Variable[]>(reaction: Reaction<T>): void {
+    // Add a dependency on the previous reaction or mutation, if it exists.
+    const prev = this._getLastReactionOrMutation();
+    if (prev != null) {
+      this._dependencyGraph.addEdge(
+        prev,
+        reaction as unknown as Reaction<Variable[]>
+      );
+    }
+
+    // FIXME: Add a dependency on the last mutation that the owner of this reactor
+    // has. How do we know that it is the last? We have a "lastCaller" problem here.
+    // Probably better to solve this at the level of the dependency graph with a function
+    // that allows for a link to be updated.
+
+    // Set up the triggers.
+    for (const t of reaction.trigs) {
+      // Link the trigger to the reaction.
+      if (t instanceof Trigger) {
+        t.getManager(this._getKey(t)).addReaction(
+          reaction as unknown as Reaction<Variable[]>
+        );
+      } else if (t instanceof Array) {
+        t.forEach((trigger) => {
+          if (trigger instanceof Trigger) {
+            trigger
+              .getManager(this._getKey(trigger))
+              .addReaction(reaction as unknown as Reaction<Variable[]>);
+          } else {
+            throw new Error("Non-Trigger included in Triggers list.");
+          }
+        });
+      }
+
+      // Also record this trigger as a dependency.
+      if (t instanceof IOPort) {
+        this._dependencyGraph.addEdge(
+          t,
+          reaction as unknown as Reaction<Variable[]>
+        );
+      } else if (t instanceof MultiPort) {
+        t.channels().forEach((channel) => {
+          this._dependencyGraph.addEdge(
+            channel,
+            reaction as unknown as Reaction<Variable[]>
+          );
+        });
+      } else if (t instanceof Array) {
         t.forEach((trigger) => {
           if (trigger instanceof IOPort) {
             this._dependencyGraph.addEdge(
@@ -731,11 +1457,53 @@ export abstract class Reactor extends Component {
       }
     }
     // Make effects dependent on sources.
+    const causalities = new Array<[Port<unknown>, Port<unknown>]>();
     for (const effect of effects) {
       for (const source of sources) {
+        if (!this._causalityGraph.getUpstreamNeighbors(effect).has(source)) {
+          causalities.push([source, effect]);
+        }
         this._causalityGraph.addEdge(source, effect);
       }
     }
+
+    // If this happens at runtime, have the priorities updated once the
+    // current mutation has completed. Note that the runtime object of an app
+    // is not available yet while its own shutdown mutation is being added.
+    if (this._runtime != null && this._runtime.isRunning()) {
+      this._runtime.recordChange(
+        [reaction as unknown as Reaction<Variable[]>],
+        () => {
+          this._removeReaction(reaction as unknown as Reaction<Variable[]>);
+          causalities.forEach(([source, effect]) => {
+            this._causalityGraph.removeEdge(source, effect);
+          });
+        }
+      );
+    }
+  }
+
+  /**
+   * Remove the given reaction or mutation from this reactor, along with its
+   * triggers and dependencies. Only to be used to undo the addition of a
+   * reaction at runtime.
+   * @param reaction A reaction or mutation of this reactor.
+   */
+  private _removeReaction(reaction: Reaction<Variable[]>): void {
+    for (const t of reaction.trigs.flat()) {
+      if (t instanceof Trigger) {
+        t.getManager(this._getKey(t)).delReaction(reaction);
+      }
+    }
+    this._dependencyGraph.removeNode(reaction);
+    for (const list of [this._reactions, this._mutations]) {
+      const index = list.indexOf(reaction);
+      if (index >= 0) {
+        list.splice(index, 1);
+      }
+    }
+    this._modeOf.delete(reaction);
+    reaction.active = false;
   }
 
   /**
@@ -812,7 +1580,7 @@ export abstract class Reactor extends Component {
     react: (this: ReactionSandbox, ...args: ArgList<T>) => void,
     deadline?: TimeValue,
     late: (this: ReactionSandbox, ...args: ArgList<T>) => void = () => {
-      Log.globalLogger.warn("Deadline violation occurred!");
+      Log.warn(this, () => "Deadline violation occurred!");
     }
   ): void {
     const calleePorts = trigs.filter((trig) => trig instanceof CalleePort);
@@ -841,7 +1609,6 @@ export abstract class Reactor extends Component {
         .getManager(this._getKey(port))
         .setLastCaller(this._getLastReactionOrMutation());
       this._reactions.push(procedure as unknown as Procedure<Variable[]>);
-      // FIXME: set priority manually if this happens at runtime.
     } else {
       // This is an ordinary reaction.
       const reaction = new Reaction(
@@ -856,22 +1623,66 @@ export abstract class Reactor extends Component {
       // Stage it directly if it to be triggered immediately.
       if (reaction.isTriggeredImmediately()) {
         this._runtime.stage(reaction as unknown as Reaction<Variable[]>);
-        // FIXME: if we're already running, then we need to set the priority as well.
       }
       reaction.active = true;
       this._recordDeps(reaction);
+      this._recordMode(reaction as unknown as Reaction<Variable[]>);
       this._reactions.push(reaction as unknown as Reaction<Variable[]>);
-      // FIXME: set priority manually if this happens at runtime.
     }
   }
 
+  /**
+   * Add an asynchronous reaction to this reactor. An asynchronous reaction
+   * is added like an ordinary reaction (see `addReaction`), but its react
+   * function returns a promise. Execution of other reactions is held until
+   * the promise settles, so any port values the reaction sets, even after
+   * awaiting, are observed at the tag at which the reaction was triggered.
+   * If the promise is rejected, an error stop is requested.
+   *
+   * @param trigs
+   * @param args
+   * @param react
+   * @param deadline
+   * @param late
+   */
+  protected addAsyncReaction<T extends Variable[]>(
+    trigs: Variable[],
+    args: [...ArgList<T>],
+    react: (this: ReactionSandbox, ...args: ArgList<T>) => Promise<void>,
+    deadline?: TimeValue,
+    late: (this: ReactionSandbox, ...args: ArgList<T>) => void = () => {
+      Log.warn(this, () => "Deadline violation occurred!");
+    }
+  ): void {
+    if (trigs.some((trig) => trig instanceof CalleePort)) {
+      throw new Error("A procedure cannot be asynchronous.");
+    }
+    const reaction = new AsyncReaction(
+      this,
+      this._reactionScope,
+      trigs,
+      args,
+      react,
+      deadline,
+      late
+    );
+    // Stage it directly if it to be triggered immediately.
+    if (reaction.isTriggeredImmediately()) {
+      this._runtime.stage(reaction as unknown as Reaction<Variable[]>);
+    }
+    reaction.active = true;
+    this._recordDeps(reaction);
+    this._recordMode(reaction as unknown as Reaction<Variable[]>);
+    this._reactions.push(reaction as unknown as Reaction<Variable[]>);
+  }
+
   protected addMutation<T extends Variable[]>(
     trigs: Variable[],
     args: [...ArgList<T>],
     react: (this: MutationSandbox, ...args: ArgList<T>) => void,
     deadline?: TimeValue,
     late: (this: MutationSandbox, ...args: ArgList<T>) => void = () => {
-      Log.globalLogger.warn("Deadline violation occurred!");
+      Log.warn(this, () => "Deadline violation occurred!");
     }
   ): void {
     const mutation = new Mutation(
@@ -968,6 +1779,48 @@ export abstract class Reactor extends Component {
     return graph;
   }
 
+  /**
+   * Return the ports and reactions directly downstream of the given port or
+   * reaction of this reactor, or directly upstream of it if `upstream` is
+   * true. Unlike `_getPrecedenceGraph`, this only consults the local
+   * dependency graphs that can record dependencies of the given node: the
+   * graphs of this reactor and its container for a port, and the graph of
+   * this reactor, the reactors it contains, and the reactors it calls
+   * procedures of for a reaction.
+   * @param node A port or reaction of this reactor.
+   * @param upstream Whether to return upstream instead of downstream
+   * neighbors.
+   */
+  public _getDependencies(
+    node: Port<unknown> | Reaction<Variable[]>,
+    upstream = false
+  ): Set<Port<unknown> | Reaction<Variable[]>> {
+    const reactors = new Set<Reactor>([this]);
+    if (node instanceof Reaction) {
+      for (const arg of node.args) {
+        if (arg instanceof CallerPort && arg.remotePort != null) {
+          reactors.add(arg.remotePort.getContainer());
+        }
+      }
+      if (node instanceof Mutation) {
+        this._getOwnReactors().forEach((r) => reactors.add(r));
+      }
+    } else {
+      reactors.add(this._getContainer());
+    }
+    const neighbors = new Set<Port<unknown> | Reaction<Variable[]>>();
+    for (const r of reactors) {
+      r._addHierarchicalDependencies();
+      r._addRPCDependencies();
+      const graph = r._dependencyGraph;
+      (upstream
+        ? graph.getUpstreamNeighbors(node)
+        : graph.getDownstreamNeighbors(node)
+      ).forEach((n) => neighbors.add(n));
+    }
+    return neighbors;
+  }
+
   /**
    * Return the reactors that this reactor owns.
    */
@@ -978,6 +1831,48 @@ export abstract class Reactor extends Component {
     ) as Reactor[];
   }
 
+  /**
+   * Return the properties of this reactor and of the reactors it contains
+   * that are instances of the given class, indexed by their path relative to
+   * the app. Components that are stored in a reactor other than their
+   * container are skipped.
+   * @param type The class of the properties to return.
+   * @param found Map to add the properties to.
+   */
+  public _collectByPath<T>(
+    type: abstract new (...args: never[]) => T,
+    found = new Map<string, T>()
+  ): Map<string, T> {
+    const path = this._getFullyQualifiedName();
+    for (const [key, value] of Object.entries(this)) {
+      if (
+        value instanceof type &&
+        !(value instanceof Component && !value._isContainedBy(this))
+      ) {
+        found.set(`${path}${Component.pathSeparator}${key}`, value);
+      }
+    }
+    for (const [delay, name] of this._delays) {
+      if (delay instanceof type && delay._isContainedBy(this)) {
+        found.set(`${path}${Component.pathSeparator}${name}`, delay);
+      }
+    }
+    for (const r of this._getOwnReactors()) {
+      r._collectByPath(type, found);
+    }
+    return found;
+  }
+
+  /**
+   * Return the name of the given delay reactor that this reactor inserted
+   * into a delayed or physical connection, or an empty string if there is
+   * no such delay.
+   * @param delay A reactor contained by this reactor.
+   */
+  public _getDelayName(delay: Reactor): string {
+    return this._delays.get(delay) ?? "";
+  }
+
   /**
    * Return a list of reactions owned by this reactor.
    */
@@ -1256,9 +2151,75 @@ export abstract class Reactor extends Component {
       .getManager(this._getKey(src))
       .addReceiver(writer as unknown as WritablePort<S>);
     const val = src.get();
-    if (this._runtime.isRunning() && val !== undefined) {
-      writer.set(val);
+    if (this._runtime.isRunning()) {
+      this._runtime.recordChange([dst], () => {
+        this._uncheckedDisconnect(src, dst);
+      });
+      if (val !== undefined) {
+        writer.set(val);
+      }
+    }
+  }
+
+  /**
+   * Connect a source port to a downstream destination port, via a delay
+   * reactor if the connection is delayed or physical, without canConnect()
+   * check.
+   * @param src The source port to connect.
+   * @param dst The destination port to connect.
+   * @param options The options of the connection.
+   */
+  private _uncheckedConnectWith<R, S extends R>(
+    src: IOPort<S>,
+    dst: IOPort<R>,
+    options?: ConnectionOptions
+  ): void {
+    if (options?.after === undefined && options?.physical !== true) {
+      this._uncheckedConnect(src, dst);
+      return;
+    }
+    const delay = new Delay<S>(
+      this,
+      options.after ?? TimeValue.zero(),
+      options.physical === true ? Origin.physical : Origin.logical
+    );
+    // Name the delay after the connection, so that its path is unique and
+    // the same each time the app is constructed.
+    const path = this._getFullyQualifiedName() + Component.pathSeparator;
+    const relative = (port: IOPort<unknown>): string =>
+      port._getFullyQualifiedName().slice(path.length);
+    const names = new Set(this._delays.values());
+    const base = `${relative(src)}->${relative(dst)}`;
+    let name = base;
+    for (let i = 2; names.has(name); i++) {
+      name = `${base}#${i}`;
     }
+    this._delays.set(delay, name);
+    if (this._runtime.isRunning()) {
+      this._runtime.recordChange([], () => {
+        this._delays.delete(delay);
+      });
+    }
+    this._uncheckedConnect(src, delay.in);
+    this._uncheckedConnect(delay.out, dst);
+  }
+
+  /**
+   * Return whether the given result of canConnect() permits a connection.
+   * Delayed and physical connections cannot introduce a zero-delay cycle, so
+   * cycles that they close are permitted.
+   * @param result The result of canConnect().
+   * @param options The options of the connection.
+   */
+  private _permitsConnection(
+    result: CanConnectResult,
+    options?: ConnectionOptions
+  ): boolean {
+    return (
+      result === CanConnectResult.SUCCESS ||
+      (result === CanConnectResult.RT_CYCLE &&
+        (options?.after !== undefined || options?.physical === true))
+    );
   }
 
   /**
@@ -1272,8 +2233,14 @@ export abstract class Reactor extends Component {
    * the caller's.
    * @param src The source port to connect.
    * @param dst The destination port to connect.
+   * @param options Optional. The delay of the connection and whether it is
+   * physical.
    */
-  protected _connect<R, S extends R>(src: IOPort<S>, dst: IOPort<R>): void {
+  protected _connect<R, S extends R>(
+    src: IOPort<S>,
+    dst: IOPort<R>,
+    options?: ConnectionOptions
+  ): void {
     if (src === undefined || src === null) {
       throw new Error("Cannot connect unspecified source");
     }
@@ -1282,18 +2249,33 @@ export abstract class Reactor extends Component {
     }
     const canConnectResult = this.canConnect(src, dst);
     // I know, this looks a bit weird. But
-    if (canConnectResult !== CanConnectResult.SUCCESS) {
+    if (!this._permitsConnection(canConnectResult, options)) {
       throw new Error(
         `ERROR connecting ${src} to ${dst}. Reason is ${canConnectResult.valueOf()}`
       );
     }
-    this._uncheckedConnect(src, dst);
+    this._uncheckedConnectWith(src, dst, options);
   }
 
+  /**
+   * Connect the channels of the given source ports and multiports to the
+   * channels of the given destination ports and multiports, pairwise and in
+   * order. To connect the channels of a bank of multiports in interleaved
+   * order, obtain them using `Bank.interleaved`. If the source is wider than
+   * the destination or vice versa, the excess channels remain unconnected
+   * and a warning is logged that lists them.
+   * @param src The source ports and multiports.
+   * @param dest The destination ports and multiports.
+   * @param repeatLeft Whether to broadcast the source channels by repeating
+   * them until all destination channels are connected.
+   * @param options Optional. The delay of the connections and whether they
+   * are physical.
+   */
   protected _connectMulti<R, S extends R>(
     src: Array<MultiPort<S> | IOPort<S>>,
     dest: Array<MultiPort<R> | IOPort<R>>,
-    repeatLeft: boolean
+    repeatLeft: boolean,
+    options?: ConnectionOptions
   ): void {
     const leftPorts = new Array<IOPort<S>>(0);
     const rightPorts = new Array<IOPort<R>>(0);
@@ -1319,30 +2301,43 @@ export abstract class Reactor extends Component {
       }
     });
 
-    if (repeatLeft) {
-      const leftPortsSize = leftPorts.length;
+    const leftPortsSize = leftPorts.length;
+    if (repeatLeft && leftPortsSize > 0) {
+      if (rightPorts.length % leftPortsSize !== 0) {
+        Log.warn(
+          this,
+          () =>
+            `The width of the destination (${rightPorts.length}) of the broadcast ` +
+            `from ${src.join(", ")} to ${dest.join(", ")} is not a multiple of the width of the source ` +
+            `(${leftPortsSize}).`
+        );
+      }
       for (let i = 0; leftPorts.length < rightPorts.length; i++) {
         leftPorts.push(leftPorts[i % leftPortsSize]);
       }
     }
 
     if (leftPorts.length < rightPorts.length) {
+      const excess = rightPorts.slice(leftPorts.length);
       Log.warn(
-        null,
-        () => "There are more right ports than left ports. ",
-        "Not all ports will be connected!"
+        this,
+        () =>
+          `The destination of the connection from ${src.join(", ")} to ${dest.join(", ")} is wider ` +
+          `than its source; channels ${excess.join(", ")} will not be connected.`
       );
     } else if (leftPorts.length > rightPorts.length) {
+      const excess = leftPorts.slice(rightPorts.length);
       Log.warn(
-        null,
-        () => "There are more left ports than right ports. ",
-        "Not all ports will be connected!"
+        this,
+        () =>
+          `The source of the connection from ${src.join(", ")} to ${dest.join(", ")} is wider ` +
+          `than its destination; channels ${excess.join(", ")} will not be connected.`
       );
     }
 
     for (let i = 0; i < leftPorts.length && i < rightPorts.length; i++) {
       const canConnectResult = this.canConnect(leftPorts[i], rightPorts[i]);
-      if (canConnectResult !== CanConnectResult.SUCCESS) {
+      if (!this._permitsConnection(canConnectResult, options)) {
         throw new Error(
           `ERROR connecting ${leftPorts[i]} 
                     to ${rightPorts[i]} 
@@ -1352,7 +2347,7 @@ export abstract class Reactor extends Component {
       }
     }
     for (let i = 0; i < leftPorts.length && i < rightPorts.length; i++) {
-      this._uncheckedConnect(leftPorts[i], rightPorts[i]);
+      this._uncheckedConnectWith(leftPorts[i], rightPorts[i], options);
     }
   }
 
@@ -1497,6 +2492,21 @@ export abstract class Reactor extends Component {
       (!this._runtime.isRunning() && this._isInScope(src, dst)) ||
       this._runtime.isRunning()
     ) {
+      if (this._runtime.isRunning()) {
+        // Record how to restore the connections if the mutation that
+        // severs them is rolled back.
+        const connected = Array.from(
+          this._dependencyGraph.getDownstreamNeighbors(src)
+        ).filter(
+          (node): node is IOPort<unknown> =>
+            node instanceof IOPort && (dst === undefined || node === dst)
+        );
+        this._runtime.recordChange([], () => {
+          for (const node of connected) {
+            this._reconnect(src, node);
+          }
+        });
+      }
       this._uncheckedDisconnect(src, dst);
     } else {
       throw new Error(`ERROR disconnecting ${src} to ${dst}`);
@@ -1524,43 +2534,196 @@ export abstract class Reactor extends Component {
     }
   }
 
-  // /**
-  //  * Set all the timers of this reactor.
-  //  */
-  // protected _setTimers(): void {
-  //     Log.debug(this, () => "Setting timers for: " + this);
-  //     let timers = new Set<Timer>();
-  //     for (const [k, v] of Object.entries(this)) {
-  //         if (v instanceof Timer) {
-  //             this._setTimer(v);
-  //         }
-  //     }
-  // }
-
-  // protected _setTimer(timer: Timer): void {
-  //     Log.debug(this, () => ">>>>>>>>>>>>>>>>>>>>>>>>Setting timer: " + timer);
-  //     let startTime;
-  //     if (timer.offset.isZero()) {
-  //         // getLaterTime always returns a microstep of zero, so handle the
-  //         // zero offset case explicitly.
-  //         startTime = this.util.getCurrentTag().getMicroStepsLater();
-  //     } else {
-  //         startTime = this.util.getCurrentTag().getLaterTag(timer.offset);
-  //     }// FIXME: startup and a timer with offset zero should be simultaneous and not retrigger events
-  //     this._schedule(new TaggedEvent(timer, this.util.getCurrentTag().getLaterTag(timer.offset), null));
-  // }
+  /**
+   * Change the width of the given multiport, which must belong to this
+   * reactor or to one of its contained reactors. Removed channels are
+   * disconnected and no longer trigger any reactions. Added channels are
+   * left unconnected, but they trigger the reactions that the multiport
+   * triggers and they are written to by the reactions that have the
+   * multiport as an effect. If this happens at runtime, the change is undone
+   * if the mutation that made it is rolled back, in which case the removed
+   * channels are restored along with their connections.
+   * @param port The multiport to resize.
+   * @param width The new width of the multiport.
+   * @returns The channels that were added.
+   */
+  private _resizeMultiPort<T>(
+    port: MultiPort<T>,
+    width: number
+  ): Array<IOPort<T>> {
+    const owner = port.getContainer();
+    const container = owner._getContainer();
+    const reactors = container === owner ? [owner] : [owner, container];
+    const previous = port.channels().slice();
+    const [added, removed] = port._resize(width);
+    const keys = new Map<IOPort<T>, symbol | undefined>();
+    const reconnect = new Array<() => void>();
+    for (const channel of removed) {
+      reactors.forEach((r) => {
+        reconnect.push(r._unwireChannel(channel));
+      });
+      keys.set(channel, owner._keyChain.get(channel));
+      owner._keyChain.delete(channel);
+    }
+    for (const channel of added) {
+      reactors.forEach((r) => {
+        r._wireChannel(port, channel);
+      });
+    }
+    Log.debug(
+      this,
+      () => `Resized ${port} from ${previous.length} to ${width}.`
+    );
+    if (this._runtime.isRunning()) {
+      this._runtime.recordChange(added, () => {
+        for (const channel of added) {
+          reactors.forEach((r) => {
+            r._unwireChannel(channel);
+          });
+          owner._keyChain.delete(channel);
+        }
+        port._restore(previous);
+        keys.forEach((key, channel) => {
+          if (key !== undefined) {
+            owner._keyChain.set(channel, key);
+          }
+          reactors.forEach((r) => {
+            r._wireChannel(port, channel);
+          });
+        });
+        reconnect.forEach((f) => {
+          f();
+        });
+      });
+    }
+    return added;
+  }
+
+  /**
+   * Sever the connections and dependencies of the given channel of a
+   * multiport that has been resized.
+   * @param channel The channel that has been removed.
+   * @returns Function that restores the severed connections.
+   */
+  private _unwireChannel(channel: IOPort<unknown>): () => void {
+    const connected = (nodes: Set<unknown>): Array<IOPort<unknown>> =>
+      Array.from(nodes).filter(
+        (node): node is IOPort<unknown> => node instanceof IOPort
+      );
+    const sources = connected(
+      this._dependencyGraph.getUpstreamNeighbors(channel)
+    );
+    const destinations = connected(
+      this._dependencyGraph.getDownstreamNeighbors(channel)
+    );
+    for (const src of sources) {
+      this._uncheckedDisconnect(src, channel);
+    }
+    this._uncheckedDisconnect(channel);
+    this._dependencyGraph.removeNode(channel);
+    this._causalityGraph.removeNode(channel);
+    return () => {
+      for (const src of sources) {
+        this._reconnect(src, channel);
+      }
+      for (const dst of destinations) {
+        this._reconnect(channel, dst);
+      }
+    };
+  }
+
+  /**
+   * Restore a connection that has been severed, without recording the change.
+   * Only to be used to roll back a mutation.
+   * @param src The source port of the connection.
+   * @param dst The destination port of the connection.
+   */
+  private _reconnect(src: IOPort<unknown>, dst: IOPort<unknown>): void {
+    const writer = dst.asWritable(this._getKey(dst));
+    src.getManager(this._getKey(src)).addReceiver(writer);
+    this._dependencyGraph.addEdge(src, dst);
+  }
+
+  /**
+   * Give the given channel of a multiport that has been resized the same
+   * triggers and dependencies with respect to the reactions of this reactor
+   * as the other channels of the multiport.
+   * @param port The multiport that has been resized.
+   * @param channel The channel that has been added.
+   */
+  private _wireChannel<T>(port: MultiPort<T>, channel: IOPort<T>): void {
+    for (const reaction of this._getReactionsAndMutations()) {
+      if (reaction.trigs.flat().includes(port)) {
+        // Adding a reaction to a multiport adds it to all of its channels.
+        port.getManager(this._getKey(port)).addReaction(reaction);
+        this._dependencyGraph.addEdge(channel, reaction);
+      }
+      const sources = new Set<Port<unknown>>();
+      const effects = new Set<Port<unknown>>();
+      let isSource = false;
+      let isEffect = false;
+      for (const a of reaction.args) {
+        if (a instanceof IOPort) {
+          sources.add(a);
+        } else if (a instanceof MultiPort) {
+          a.channels().forEach((c) => sources.add(c));
+          isSource ||= a === port;
+        } else if (a instanceof WritablePort) {
+          effects.add(a.getPort());
+        } else if (a instanceof WritableMultiPort) {
+          a.getPorts().forEach((c) => effects.add(c));
+          isEffect ||= a.getPorts().includes(channel);
+        }
+      }
+      if (isSource) {
+        this._dependencyGraph.addEdge(channel, reaction);
+        effects.forEach((effect) => {
+          this._causalityGraph.addEdge(channel, effect);
+        });
+      }
+      if (isEffect) {
+        this._dependencyGraph.addEdge(reaction, channel);
+        sources.forEach((source) => {
+          this._causalityGraph.addEdge(source, channel);
+        });
+      }
+    }
+  }
+
+  // /**
+  //  * Set all the timers of this reactor.
+  //  */
+  // protected _setTimers(): void {
+  //     Log.debug(this, () => "Setting timers for: " + this);
+  //     let timers = new Set<Timer>();
+  //     for (const [k, v] of Object.entries(this)) {
+  //         if (v instanceof Timer) {
+  //             this._setTimer(v);
+  //         }
+  //     }
+  // }
+
+  // protected _setTimer(timer: Timer): void {
+  //     Log.debug(this, () => ">>>>>>>>>>>>>>>>>>>>>>>>Setting timer: " + timer);
+  //     let startTime;
+  //     if (timer.offset.isZero()) {
+  //         // getLaterTime always returns a microstep of zero, so handle the
+  //         // zero offset case explicitly.
+  //         startTime = this.util.getCurrentTag().getMicroStepsLater();
+  //     } else {
+  //         startTime = this.util.getCurrentTag().getLaterTag(timer.offset);
+  //     }// FIXME: startup and a timer with offset zero should be simultaneous and not retrigger events
+  //     this._schedule(new TaggedEvent(timer, this.util.getCurrentTag().getLaterTag(timer.offset), null));
+  // }
 
   /**
    * Report a timer to the app so that it gets unscheduled.
    * @param timer The timer to report to the app.
    */
   protected _unsetTimer(timer: Timer): void {
-    // FIXME: we could either set the timer to 'inactive' to tell the
-    // scheduler to ignore future event and prevent it from rescheduling any.
-    // The problem with this approach is that if, for some reason, a timer would get
-    // reactivated, it could start seeing events that were scheduled prior to its
-    // becoming inactive. Alternatively, we could remove the event from the queue,
-    // but we'd have to add functionality for this.
+    // Remove the pending event of the timer from the event queue, which also
+    // prevents the timer from rescheduling itself.
+    this._runtime.cancel(timer);
   }
 
   /**
@@ -1755,6 +2918,18 @@ class EventQueue extends PrioritySet<Tag> {
   public peek(): TaggedEvent<unknown> | undefined {
     return super.peek() as TaggedEvent<unknown>;
   }
+
+  public extract(
+    predicate: (event: TaggedEvent<unknown>) => boolean
+  ): Array<TaggedEvent<unknown>> {
+    return super.extract((event) =>
+      predicate(event as TaggedEvent<unknown>)
+    ) as Array<TaggedEvent<unknown>>;
+  }
+
+  public toArray(): Array<TaggedEvent<unknown>> {
+    return super.toArray() as Array<TaggedEvent<unknown>>;
+  }
 }
 
 class ReactionQueue extends PrioritySet<Priority> {
@@ -1769,6 +2944,24 @@ class ReactionQueue extends PrioritySet<Priority> {
   public peek(): Reaction<Variable[]> {
     return super.peek() as Reaction<Variable[]>;
   }
+
+  public extract(
+    predicate: (reaction: Reaction<Variable[]>) => boolean
+  ): Array<Reaction<Variable[]>> {
+    return super.extract((reaction) =>
+      predicate(reaction as Reaction<Variable[]>)
+    ) as Array<Reaction<Variable[]>>;
+  }
+
+  /**
+   * Restore the order of the queue after the priorities of queued reactions
+   * have changed.
+   */
+  public reorder(): void {
+    this.extract(() => true).forEach((reaction) => {
+      this.push(reaction);
+    });
+  }
 }
 
 export interface Runtime {
@@ -1776,11 +2969,27 @@ export interface Runtime {
   stage: (reaction: Reaction<Variable[]>) => void;
   initialize: (timer: Timer) => void;
   schedule: (e: TaggedEvent<unknown>) => void;
+  arm: (watchdog: Watchdog, timeout: TimeValue) => void;
+  transition: (reactor: Reactor) => void;
+  disarm: (watchdog: Watchdog) => void;
   delete: (r: Reactor) => void;
+  unstage: (reaction: Reaction<Variable[]>) => void;
   isRunning: () => boolean;
+  cancel: (trigger: ScheduledTrigger<unknown>) => void;
+  unschedule: (e: TaggedEvent<unknown>) => boolean;
+  pending: (trigger: ScheduledTrigger<unknown>) => Array<TaggedEvent<unknown>>;
+  suspended: (
+    trigger: ScheduledTrigger<unknown>
+  ) => Array<TaggedEvent<unknown>>;
+  recordChange: (
+    affected: Array<Port<unknown> | Reaction<Variable[]>>,
+    undo: () => void
+  ) => void;
 }
 interface UtilityFunctions {
   requestStop: () => void;
+  requestStopAt: (tag: Tag) => void;
+  requestStopAfter: (delay: TimeValue) => void;
   reportError: (message?: string) => void;
   requestErrorStop: (message?: string) => void;
   isLastTAGProvisional: () => boolean;
@@ -1811,7 +3020,11 @@ interface UtilityFunctions {
 
 export interface MutationSandbox extends ReactionSandbox {
   connect: {
-    <R, S extends R>(src: ConnectablePort<S>, dst: ConnectablePort<R>): void;
+    <R, S extends R>(
+      src: ConnectablePort<S>,
+      dst: ConnectablePort<R>,
+      options?: ConnectionOptions
+    ): void;
     <A extends T, R, T, S extends R>(
       src: CallerPort<A, R>,
       dst: CalleePort<T, S>
@@ -1822,6 +3035,29 @@ export interface MutationSandbox extends ReactionSandbox {
 
   delete: (reactor: Reactor) => void;
 
+  /**
+   * Change the width of a multiport of the reactor or of one of its
+   * contained reactors. Channels are removed from or appended to the end.
+   * The given function is invoked for each added channel to connect it.
+   */
+  resizeMultiPort: <T>(
+    port: MultiPort<T>,
+    width: number,
+    connect?: (this: MutationSandbox, channel: IOPort<T>, index: number) => void
+  ) => void;
+
+  /**
+   * Change the number of members of a bank of the reactor. Members are
+   * deleted from or appended to the end, so the bank indices of the other
+   * members do not change. The given function is invoked for each added
+   * member to connect it.
+   */
+  resizeBank: <T extends Reactor, S>(
+    bank: Bank<T, S>,
+    width: number,
+    connect?: (this: MutationSandbox, member: T, index: number) => void
+  ) => void;
+
   getReactor: () => Reactor; // Container
 
   // FIXME:
@@ -1833,11 +3069,16 @@ export interface ReactionSandbox {
    * Collection of utility functions accessible from within a `react` function.
    */
   util: UtilityFunctions;
-  getBankIndex: () => number;
+  getBankIndex: (depth?: number) => number;
 }
 
 export class App extends Reactor {
-  readonly _alarm = new Alarm();
+  readonly _alarm: Alarm;
+
+  /**
+   * The clock from which this app reads physical time.
+   */
+  readonly _clock: Clock;
 
   protected _errored = false;
 
@@ -1845,6 +3086,12 @@ export class App extends Reactor {
 
   readonly _uuid = uuidv4();
 
+  /**
+   * Promise of an asynchronous reaction that is in progress, if any. While
+   * it is, no other reactions are executed and logical time does not advance.
+   */
+  private _pendingReaction: Promise<void> | undefined;
+
   /**
    * Set of reactions to stage when this app starts executing.
    */
@@ -1862,6 +3109,155 @@ export class App extends Reactor {
    */
   private readonly _reactorsToRemove = new Array<Reactor>();
 
+  /**
+   * Ports and reactions affected by changes to the topology of this app that
+   * the priorities of reactions do not yet account for.
+   */
+  private readonly _affected = new Set<Port<unknown> | Reaction<Variable[]>>();
+
+  /**
+   * Functions that undo the changes to the topology of this app that the
+   * priorities of reactions do not yet account for, in order of the changes.
+   */
+  private readonly _undoLog = new Array<() => void>();
+
+  /**
+   * Alarms of the watchdogs that are currently running.
+   */
+  private readonly _watchdogs = new Map<Watchdog, Alarm>();
+
+  /**
+   * Set of reactors that have requested a mode transition at the current tag.
+   */
+  private readonly _pendingTransitions = new Set<Reactor>();
+
+  /**
+   * Recorder of the execution trace, if tracing is enabled.
+   */
+  private _tracer: Tracer | undefined;
+
+  /**
+   * Registry of runtime metrics, if metrics are enabled.
+   */
+  private _metrics: MetricsRegistry | undefined;
+
+  /**
+   * The last tag of which metrics were recorded, if any.
+   */
+  private _measuredTag: Tag | undefined;
+
+  /**
+   * Policy that determines the order among independent reactions.
+   */
+  private _schedulingPolicy = SchedulingPolicy.TOPOLOGICAL;
+
+  /**
+   * Amount of physical time that the processing of the tag at the end of
+   * execution may take before shutdown is forced, if limited.
+   */
+  private _gracePeriod: TimeValue | undefined;
+
+  /**
+   * Alarm that forces shutdown once the grace period has elapsed.
+   */
+  private readonly _graceAlarm: Alarm;
+
+  /**
+   * Codecs used to encode and decode values in checkpoints.
+   */
+  private readonly _codecs = new CodecRegistry();
+
+  /**
+   * Whether the reactions of the current tag are being executed, in which
+   * case this app cannot be checkpointed.
+   */
+  private _processingTag = false;
+
+  /**
+   * If periodic checkpoints are enabled, their interval in logical time, the
+   * function to hand them to, and the time of the last one.
+   */
+  private _checkpoints:
+    | {
+        interval: TimeValue;
+        handler: (checkpoint: Checkpoint) => void;
+        last: TimeValue | undefined;
+      }
+    | undefined;
+
+  /**
+   * If a checkpoint is being restored, the tag it was taken at, the end of
+   * execution, and the pending events, along with the mode and tag at which
+   * they were suspended if applicable. All tags are relative to the start of
+   * execution.
+   */
+  private _resumption:
+    | {
+        tag: Tag;
+        end: Tag | undefined;
+        events: Array<[TaggedEvent<unknown>, [Mode, Tag] | undefined]>;
+        lastCheckpoint: TimeValue | undefined;
+      }
+    | undefined;
+
+  /**
+   * Recorder of the events of physical actions, if recording is enabled.
+   */
+  private _recorder: Recorder | undefined;
+
+  /**
+   * Paths of the actions of this app, used to identify them in recordings.
+   */
+  private readonly _actionPaths = new Map<Action<unknown>, string>();
+
+  /**
+   * If a recording is being replayed, its events, with tags relative to the
+   * start of execution.
+   */
+  private _replay: Array<TaggedEvent<unknown>> | undefined;
+
+  /**
+   * Whether this app is paused, in which case it only advances to a next
+   * tag when requested to step.
+   */
+  private _paused = false;
+
+  /**
+   * If a step was requested while paused, the tag up to which to step (or
+   * undefined to step a single tag), the function to resolve the promise
+   * returned to the requester with, and the report of the last tag that was
+   * processed since the request.
+   */
+  private _stepping:
+    | {
+        until: Tag | undefined;
+        resolve: (report: StepReport | undefined) => void;
+        last: StepReport | undefined;
+      }
+    | undefined;
+
+  /**
+   * The reason why execution is ending, once it is known. If it remains
+   * undefined, execution ends because its end was reached.
+   */
+  private _terminationReason: TerminationReason | undefined;
+
+  /**
+   * Function to resolve the promise returned by `run` with, if this app was
+   * started using `run`.
+   */
+  private _completion: ((report: ExecutionReport) => void) | undefined;
+
+  /**
+   * Function to report each processed tag to, if any.
+   */
+  private _stepHandler: ((report: StepReport) => void) | undefined;
+
+  /**
+   * Reactions invoked at the current tag, if they are to be reported.
+   */
+  private _invoked: Array<Reaction<Variable[]>> | undefined;
+
   /**
    * Stores whether the current tag's reactions queue is empty.
    * This will be false when a federate waits for network inputs.
@@ -1885,12 +3281,20 @@ export class App extends Reactor {
     constructor(private readonly app: App) {}
 
     public requestStop(): void {
-      this.app._shutdown();
+      this.app._stopFor(TerminationReason.STOP);
+    }
+
+    public requestStopAt(tag: Tag): void {
+      this.app._stopFor(TerminationReason.STOP, tag);
+    }
+
+    public requestStopAfter(delay: TimeValue): void {
+      this.requestStopAt(this.app._currentTag.getLaterTag(delay));
     }
 
     public requestErrorStop(message?: string): void {
       this.reportError(message);
-      this.app._shutdown();
+      this.app._stopFor(TerminationReason.ERROR);
     }
 
     public reportError(message?: string): void {
@@ -1915,7 +3319,7 @@ export class App extends Reactor {
     }
 
     public getCurrentPhysicalTime(): TimeValue {
-      return getCurrentPhysicalTime();
+      return this.app._clock.now();
     }
 
     public getStartTag(): Tag {
@@ -1931,7 +3335,7 @@ export class App extends Reactor {
     }
 
     public getElapsedPhysicalTime(): TimeValue {
-      return getCurrentPhysicalTime().subtract(this.app._startOfExecution);
+      return this.app._clock.now().subtract(this.app._startOfExecution);
     }
 
     public sendRTIMessage<T>(
@@ -1991,6 +3395,15 @@ export class App extends Reactor {
       }
     }
 
+    /**
+     * Remove the given reaction from the reactions staged for execution.
+     * @param reaction The reaction to remove from the reaction queue.
+     */
+    public unstage(reaction: Reaction<Variable[]>): void {
+      this.app._reactionQ.extract((r) => r === reaction);
+      this.app._reactionsAtStartup.delete(reaction);
+    }
+
     /**
      * Initialize the given timer.
      *
@@ -2005,7 +3418,7 @@ export class App extends Reactor {
     public initialize(timer: Timer): void {
       if (this.app._active) {
         Log.debug(
-          this,
+          this.app,
           () => "Scheduling timer " + timer._getFullyQualifiedName()
         );
         console.log(
@@ -2021,7 +3434,7 @@ export class App extends Reactor {
 
         if (nextTag != null) {
           Log.debug(
-            this,
+            this.app,
             () =>
               "Postponed scheduling of timer " + timer._getFullyQualifiedName()
           );
@@ -2043,6 +3456,17 @@ export class App extends Reactor {
      * @param e Tagged event to push onto the event queue.
      */
     public schedule(e: TaggedEvent<unknown>): void {
+      if (e.trigger instanceof Action && e.trigger.origin === Origin.physical) {
+        if (this.app._replay !== undefined) {
+          // During replay, physical actions only occur as recorded.
+          Log.debug(
+            this.app,
+            () => `Ignoring event of ${e.trigger} in replay.`
+          );
+          return;
+        }
+        this.app._record(e);
+      }
       const head = this.app._eventQ.peek();
 
       // Don't schedule events past the end of execution.
@@ -2053,16 +3477,16 @@ export class App extends Reactor {
         this.app._eventQ.push(e);
       }
 
-      Log.debug(this, () => `Scheduling with trigger: ${e.trigger}`);
+      Log.debug(this.app, () => `Scheduling with trigger: ${e.trigger}`);
       Log.debug(
-        this,
+        this.app,
         () =>
           `Elapsed logical time in schedule: ${String(
             this.util.getElapsedLogicalTime()
           )}`
       );
       Log.debug(
-        this,
+        this.app,
         () =>
           `Elapsed physical time in schedule: ${String(
             this.util.getElapsedPhysicalTime()
@@ -2076,14 +3500,124 @@ export class App extends Reactor {
       }
     }
 
+    /**
+     * Start the given watchdog, or restart it if it is already running.
+     * Once the given amount of physical time elapses, an event tagged with
+     * the physical time of expiration is pushed onto the event queue.
+     * @param watchdog The watchdog to start.
+     * @param timeout The amount of physical time after which it expires.
+     */
+    public arm(watchdog: Watchdog, timeout: TimeValue): void {
+      this.disarm(watchdog);
+      const alarm = new Alarm(this.app._clock);
+      const expiration = this.app._clock.now().add(timeout);
+      alarm.set(() => {
+        this.app._watchdogs.delete(watchdog);
+        Log.debug(this.app, () => `Watchdog ${watchdog} expired.`);
+        // Logical time may have advanced past physical time.
+        let tag = new Tag(expiration, 0);
+        if (!tag.isGreaterThan(this.app._currentTag)) {
+          tag = this.app._currentTag.getLaterTag(TimeValue.zero());
+        }
+        this.schedule(new TaggedEvent(watchdog, tag, tag));
+      }, timeout);
+      this.app._watchdogs.set(watchdog, alarm);
+    }
+
+    /**
+     * Stop the given watchdog if it is running.
+     * @param watchdog The watchdog to stop.
+     */
+    public disarm(watchdog: Watchdog): void {
+      this.app._watchdogs.get(watchdog)?.unset();
+      this.app._watchdogs.delete(watchdog);
+    }
+
+    /**
+     * Register the given reactor as having requested a mode transition. The
+     * transition takes effect at the end of the current tag.
+     * @param reactor The reactor that requested a mode transition.
+     */
+    public transition(reactor: Reactor): void {
+      this.app._pendingTransitions.add(reactor);
+    }
+
     /**
      * Mark a reactor for deletion. At the end of logical time at which
      * this method was invoked the reactor will be removed from its
-     * container.
+     * container, unless the mutation that deleted it is rolled back.
      * @param r The reactor to be deleted.
      */
     public delete(r: Reactor): void {
-      this.app._reactorsToRemove.push(r);
+      const deleted = this.app._reactorsToRemove;
+      deleted.push(r);
+      this.recordChange([], () => {
+        deleted.splice(deleted.lastIndexOf(r), 1);
+      });
+    }
+
+    /**
+     * Remove all pending events of the given trigger from the event queue.
+     * @param trigger The trigger of which to remove the events.
+     */
+    public cancel(trigger: ScheduledTrigger<unknown>): void {
+      this.app._eventQ.extract((e) => e.trigger === trigger);
+    }
+
+    /**
+     * Remove the given event from the event queue, or from the inactive mode
+     * it is suspended in, if it is still pending.
+     * @param e The event to remove.
+     * @returns True if the event was removed, false otherwise.
+     */
+    public unschedule(e: TaggedEvent<unknown>): boolean {
+      const matches = (event: TaggedEvent<unknown>): boolean =>
+        event.trigger === e.trigger && event.tag.isSimultaneousWith(e.tag);
+      const mode = e.trigger.getContainer()._getInactiveMode(e.trigger);
+      const queued = this.app._eventQ.extract(matches);
+      const suspended = mode?._discard(matches) ?? [];
+      return queued.length + suspended.length > 0;
+    }
+
+    /**
+     * Return the pending events of the given trigger that are on the event
+     * queue, so not those suspended in an inactive mode.
+     * @param trigger The trigger of which to return the events.
+     */
+    public pending(
+      trigger: ScheduledTrigger<unknown>
+    ): Array<TaggedEvent<unknown>> {
+      return this.app._eventQ.toArray().filter((e) => e.trigger === trigger);
+    }
+
+    /**
+     * Return the events of the given trigger that are suspended in the
+     * inactive mode it is attached to.
+     * @param trigger The trigger of which to return the events.
+     */
+    public suspended(
+      trigger: ScheduledTrigger<unknown>
+    ): Array<TaggedEvent<unknown>> {
+      const mode = trigger.getContainer()._getInactiveMode(trigger);
+      return (mode?._getSuspended() ?? [])
+        .map(([event]) => event)
+        .filter((e) => e.trigger === trigger);
+    }
+
+    /**
+     * Record a change to the topology of the app made during execution.
+     * Priorities of reactions are updated to account for the change once the
+     * reaction or mutation that made it has completed.
+     * @param affected The ports and reactions of which the dependencies have
+     * changed, or the reactions that have been added.
+     * @param undo Function that undoes the change.
+     */
+    public recordChange(
+      affected: Array<Port<unknown> | Reaction<Variable[]>>,
+      undo: () => void
+    ): void {
+      affected.forEach((node) => this.app._affected.add(node));
+      this.app._undoLog.push(undo);
     }
   })(this);
 
@@ -2175,7 +3709,7 @@ export class App extends Reactor {
    * to logical time. If true, don't wait for physical time to match logical
    * time.
    */
-  private readonly _fast: boolean;
+  private _fast: boolean;
 
   /**
    * Indicates whether the program should continue running once the event
@@ -2209,6 +3743,27 @@ export class App extends Reactor {
     this._advanceMessageInterval = advanceMessageInterval;
   }
 
+  /**
+   * Logger of this app, if it has a log level of its own.
+   */
+  private _logger: Logger | undefined;
+
+  /**
+   * Set the log level of this app. Once set, messages logged on behalf of
+   * this app and its components are no longer subject to the global log
+   * level set using `Log.setLevel`, and log levels of other apps in the same
+   * process do not affect them.
+   * @param level The log level.
+   */
+  public setLogLevel(level: Log.LogLevel): void {
+    this._logger ??= Log.globalLogger.child({app: this._name});
+    this._logger.level = level.valueOf();
+  }
+
+  public _getLogger(): Logger {
+    return this._logger ?? Log.globalLogger;
+  }
+
   /**
    * Unset all the timers of this reactor.
    */
@@ -2231,16 +3786,23 @@ export class App extends Reactor {
    * @param fast Optional parameter, if true does not wait for physical time to catch up to logical time.
    * @param success Optional callback to be used to indicate a successful execution.
    * @param failure Optional callback to be used to indicate a failed execution.
+   * @param clock Optional clock to read physical time from. Defaults to the
+   * platform clock.
    */
   constructor(
     executionTimeout: TimeValue | undefined = undefined,
     keepAlive = false,
     fast = false,
     public success: () => void = () => undefined,
-    public failure: () => void = () => undefined
+    public failure: () => void = () => undefined,
+    clock: Clock = new RealClock()
   ) {
     super(null);
 
+    this._clock = clock;
+    this._alarm = new Alarm(clock);
+    this._graceAlarm = new Alarm(clock);
+
     let name = this.constructor.name;
     if (name === "") {
       name = "app";
@@ -2314,36 +3876,382 @@ export class App extends Reactor {
    * be false in the federated exection.
    */
   protected _react(): boolean {
-    let r: Reaction<Variable[]>;
     while (this._reactionQ.size() > 0) {
+      const r = this._reactionQ.pop();
       try {
-        r = this._reactionQ.pop();
-        r.doReact();
+        if (!this._execute(r)) {
+          return false;
+        }
       } catch (e) {
         Log.error(this, () => `Exception occurred in reaction: ${r}: ${e}`);
-        // Allow errors in reactions to kill execution.
-        throw e;
+        // Unless the fault policy says otherwise, allow errors in reactions
+        // to kill execution.
+        if (!this._recover(r, e)) {
+          this._abort(r, e);
+          return false;
+        }
       }
     }
-    Log.globalLogger.debug("Finished handling all events at current time.");
+    Log.debug(this, () => "Finished handling all events at current time.");
     return true;
   }
 
   /**
-   * Do the steps needed for the new logical tag.
-   * This function is overriden by federation.ts.
+   * Apply the fault policy of the reactor that contains the given reaction
+   * to an exception thrown by it.
+   * @param reaction The reaction that threw the exception.
+   * @param error The exception that was thrown.
+   * @returns Whether execution may continue.
    */
-  protected _startTimeStep(): void {
-    return undefined;
+  protected _recover(reaction: Reaction<Variable[]>, error: unknown): boolean {
+    const reactor = reaction.getContainer();
+    switch (reactor._getFaultPolicy()) {
+      case FaultPolicy.REPORT:
+        this.util.reportError(
+          `Exception occurred in reaction: ${reaction}: ${error}`
+        );
+        return true;
+      case FaultPolicy.HANDLE:
+        // Handing a fault handler its own fault could go on forever.
+        if (reactor._isFaultHandler(reaction)) {
+          Log.warn(this, () => `Fault handler ${reaction} failed.`);
+          return false;
+        }
+        if (
+          reactor._handleFault({
+            reaction: reaction.toString(),
+            tag: this.util.getCurrentTag(),
+            error
+          })
+        ) {
+          return true;
+        }
+        Log.warn(
+          this,
+          () => `No fault handler found for reaction ${reaction}.`
+        );
+        return false;
+      default:
+        return false;
+    }
   }
 
   /**
-   * Pop all events from event_q with timestamp equal to current tag,
-   * extract all the reactions triggered by these events, and stick them
-   * into the reaction queue.
+   * Abort execution because of an exception thrown by the given reaction.
+   * If this app was started using `run`, execution is finished and the
+   * exception is reported through the returned promise; otherwise, the
+   * exception is rethrown.
+   * @param reaction The reaction that threw the exception.
+   * @param error The exception that was thrown.
    */
-  private _popEvents(): void {
-    // Execute all reactions that are triggered at the current tag
+  protected _abort(reaction: Reaction<Variable[]>, error: unknown): void {
+    if (this._completion === undefined) {
+      // Execution does not continue, so complete the trace and the recording
+      // before passing on the exception.
+      this._tracer?.close();
+      this._recorder?.close();
+      throw error;
+    }
+    this.util.reportError(
+      `Exception occurred in reaction: ${reaction}: ${error}`
+    );
+    this._terminationReason = TerminationReason.ERROR;
+    this._reactionQ.empty();
+    this._finish();
+  }
+
+  /**
+   * Execute the given reaction. If it is an asynchronous reaction that does
+   * not complete immediately, hold the reaction queue until it does, and
+   * then resume execution by invoking `_next`.
+   * @param reaction The reaction to execute.
+   * @returns Whether the reaction has completed.
+   */
+  protected _execute(reaction: Reaction<Variable[]>): boolean {
+    if (reaction.getContainer()._getInactiveMode(reaction) === undefined) {
+      this._invoked?.push(reaction);
+    }
+    const observe = this._observe(reaction);
+    if (!(reaction instanceof AsyncReaction)) {
+      this._transact(reaction);
+      observe();
+      return true;
+    }
+    const pending = reaction.doReactAsync();
+    if (pending === undefined) {
+      observe();
+      return true;
+    }
+    this._pendingReaction = pending.then(
+      () => {
+        this._pendingReaction = undefined;
+        observe();
+        this._requestImmediateInvocationOfNext();
+      },
+      (e) => {
+        this._pendingReaction = undefined;
+        Log.error(
+          this,
+          () => `Exception occurred in reaction: ${reaction}: ${e}`
+        );
+        if (!this._recover(reaction, e)) {
+          this.util.requestErrorStop(
+            `Exception occurred in reaction: ${reaction}: ${e}`
+          );
+        }
+        this._requestImmediateInvocationOfNext();
+      }
+    );
+    return false;
+  }
+
+  /**
+   * Invoke the given reaction as a transaction with respect to the changes it
+   * makes to the topology of this app. Once it completes, update the
+   * priorities of the reactions affected by its changes. If it throws an
+   * exception, or if its changes introduce a cycle, undo all of them and
+   * rethrow.
+   * @param reaction The reaction to invoke, typically a mutation.
+   */
+  private _transact(reaction: Reaction<Variable[]>): void {
+    try {
+      reaction.doReact();
+      if (this._undoLog.length > 0) {
+        this._updatePriorities(reaction);
+      }
+    } catch (e) {
+      this._rollback();
+      throw e;
+    }
+  }
+
+  /**
+   * Update the priorities of the reactions affected by the changes to the
+   * topology of this app made during execution, and reorder the reaction
+   * queue accordingly. Unlike `_analyzeDependencies`, this only considers the
+   * part of the precedence graph that is downstream of the changes and only
+   * reassigns priorities to the reactions in it, except under EDF, where new
+   * deadlines can change the order of any reactions upstream of them.
+   * @param reaction The reaction that made the changes.
+   */
+  private _updatePriorities(reaction: Reaction<Variable[]>): void {
+    let updated: boolean;
+    if (this._schedulingPolicy === SchedulingPolicy.EDF) {
+      const graph = new ReactionGraph(this._getPrecedenceGraph());
+      updated = graph.updatePrioritiesByDeadline(true);
+    } else {
+      const [pg, reactions] = this._getAffectedPrecedenceGraph();
+      updated = new ReactionGraph(pg).updatePrioritiesDownstreamOf(reactions);
+    }
+    if (!updated) {
+      throw new Error(
+        `Changes made by ${reaction} introduce a cycle in the reaction graph.`
+      );
+    }
+    Log.debug(
+      this,
+      () => `Updated the priorities affected by changes made by ${reaction}.`
+    );
+    this._affected.clear();
+    this._undoLog.length = 0;
+    this._reactionQ.reorder();
+  }
+
+  /**
+   * Return the part of the precedence graph that is downstream of the ports
+   * and reactions affected by changes to the topology of this app, along
+   * with the paths from the nearest reactions upstream of it, and return the
+   * reactions nearest downstream of the affected ports and reactions.
+   */
+  private _getAffectedPrecedenceGraph(): [
+    PrecedenceGraph<Port<unknown> | Reaction<Variable[]>>,
+    Set<Reaction<Variable[]>>
+  ] {
+    const neighbors = (
+      node: Port<unknown> | Reaction<Variable[]>,
+      upstream = false
+    ): Set<Port<unknown> | Reaction<Variable[]>> =>
+      node.getContainer()._getDependencies(node, upstream);
+    // Collect the part of the precedence graph downstream of the affected
+    // ports and reactions, and find the reactions nearest downstream of them.
+    const pg = new PrecedenceGraph<Port<unknown> | Reaction<Variable[]>>();
+    const reactions = new Set<Reaction<Variable[]>>();
+    const visited = new Set<Port<unknown> | Reaction<Variable[]>>();
+    const stack = Array.from(this._affected);
+    for (let node = stack.pop(); node !== undefined; node = stack.pop()) {
+      if (visited.has(node)) continue;
+      visited.add(node);
+      pg.addNode(node);
+      for (const next of neighbors(node)) {
+        pg.addEdge(node, next);
+        stack.push(next);
+      }
+    }
+    const search = (node: Port<unknown> | Reaction<Variable[]>): void => {
+      if (node instanceof Reaction) {
+        reactions.add(node);
+      } else {
+        pg.getDownstreamNeighbors(node).forEach(search);
+      }
+    };
+    this._affected.forEach(search);
+    // Add the paths from the nearest reactions upstream of the collected ones
+    // so that their priorities are accounted for.
+    const climbed = new Set<Port<unknown>>();
+    const climb = (node: Port<unknown> | Reaction<Variable[]>): void => {
+      for (const prev of neighbors(node, true)) {
+        pg.addEdge(prev, node);
+        if (!(prev instanceof Reaction) && !climbed.has(prev)) {
+          climbed.add(prev);
+          climb(prev);
+        }
+      }
+    };
+    for (const node of visited) {
+      if (node instanceof Reaction) climb(node);
+    }
+    return [pg, reactions];
+  }
+
+  /**
+   * Undo the changes to the topology of this app that the priorities of
+   * reactions do not yet account for, in reverse order, and unstage the
+   * reactions that were added.
+   */
+  private _rollback(): void {
+    if (this._undoLog.length === 0) {
+      return;
+    }
+    Log.warn(
+      this,
+      () => `Rolling back ${this._undoLog.length} changes to the topology.`
+    );
+    const undo = this._undoLog.splice(0).reverse();
+    undo.forEach((u) => {
+      u();
+    });
+    const added = this._affected;
+    this._reactionQ.extract((r) => added.has(r));
+    this._affected.clear();
+  }
+
+  /**
+   * Prepare to trace and measure an invocation of the given reaction that is
+   * about to start, if tracing or metrics are enabled.
+   * @param reaction The reaction that is about to be invoked.
+   * @returns Function to invoke when the invocation has completed.
+   */
+  private _observe(reaction: Reaction<Variable[]>): () => void {
+    if (this._tracer === undefined && this._metrics === undefined) {
+      return () => undefined;
+    }
+    const tag = this._currentTag;
+    const start = this._clock.now();
+    const violations = reaction.getDeadlineViolations();
+    return () => {
+      this._tracer?.reaction(reaction, tag, start);
+      this._metrics?.recordReaction(
+        reaction,
+        this._clock.now().subtract(start).toMicroseconds(),
+        reaction.getDeadlineViolations() > violations
+      );
+    };
+  }
+
+  /**
+   * Tear down the reactors that were deleted at the current tag. Contained
+   * reactors are torn down before their containers. At the end of
+   * execution, when all reactors are deleted, only their teardown handlers
+   * are invoked, so that the structure of the app remains intact.
+   */
+  private _removeDeletedReactors(): void {
+    if (this._reactorsToRemove.length === 0) {
+      return;
+    }
+    const deleted = Array.from(new Set(this._reactorsToRemove.splice(0)));
+    const ending =
+      this._endOfExecution !== undefined &&
+      this._currentTag.isSimultaneousWith(this._endOfExecution);
+    for (const reactor of deleted.reverse()) {
+      if (ending) {
+        reactor._invokeTeardownHandlers();
+      } else {
+        reactor._teardown();
+      }
+    }
+  }
+
+  /**
+   * Apply the mode transitions requested at the current tag, and suspend the
+   * events of triggers that have become inactive as a result.
+   */
+  private _applyModeTransitions(): void {
+    if (this._pendingTransitions.size === 0) {
+      return;
+    }
+    for (const reactor of this._pendingTransitions) {
+      const transition = reactor._takeTransition();
+      if (transition === undefined) {
+        continue;
+      }
+      const [mode, type] = transition;
+      Log.debug(this, () => `Entering mode ${mode} with ${type} transition.`);
+      if (type === Transition.RESET) {
+        // The mode may have been active already, in which case its pending
+        // events are still on the event queue.
+        this._eventQ.extract((e) =>
+          e.trigger.getContainer()._isInMode(e.trigger, mode)
+        );
+        mode._resume();
+        reactor._resetMode(mode);
+      } else {
+        for (const [event, suspendedAt] of mode._resume()) {
+          this.__runtime.schedule(
+            new TaggedEvent(
+              event.trigger,
+              this._currentTag.getLaterTag(
+                event.tag.getTimeDifference(suspendedAt)
+              ),
+              event.value
+            )
+          );
+        }
+      }
+    }
+    this._pendingTransitions.clear();
+    this._suspendInactiveEvents();
+  }
+
+  /**
+   * Remove the events of triggers in inactive modes from the event queue,
+   * and hand them to those modes until they are entered again.
+   */
+  private _suspendInactiveEvents(): void {
+    for (const event of this._eventQ.extract(
+      (e) => e.trigger.getContainer()._getInactiveMode(e.trigger) !== undefined
+    )) {
+      event.trigger
+        .getContainer()
+        ._getInactiveMode(event.trigger)
+        ?._suspend(event, this._currentTag);
+    }
+  }
+
+  /**
+   * Do the steps needed for the new logical tag.
+   * This function is overriden by federation.ts.
+   */
+  protected _startTimeStep(): void {
+    return undefined;
+  }
+
+  /**
+   * Pop all events from event_q with timestamp equal to current tag,
+   * extract all the reactions triggered by these events, and stick them
+   * into the reaction queue.
+   */
+  private _popEvents(): void {
+    // Execute all reactions that are triggered at the current tag
     // in topological order. After that, if the next event on the event queue
     // has the same time (but a greater microstep), repeat. This prevents
     // JS event loop from gaining control and imposing overhead. Asynchronous
@@ -2357,6 +4265,16 @@ export class App extends Reactor {
         const trigger = nextEvent?.trigger;
         this._eventQ.pop();
         Log.debug(this, () => `Popped off the event queue: ${trigger}`);
+        if (nextEvent !== undefined) {
+          this._tracer?.event(nextEvent);
+        }
+        // Hold on to events of triggers in inactive modes.
+        const mode = trigger?.getContainer()._getInactiveMode(trigger);
+        if (mode !== undefined && nextEvent !== undefined) {
+          mode._suspend(nextEvent, this._currentTag);
+          nextEvent = this._eventQ.peek();
+          continue;
+        }
         // Handle timers.
         if (trigger instanceof Timer) {
           if (!trigger.period.isZero()) {
@@ -2381,15 +4299,6 @@ export class App extends Reactor {
         nextEvent = this._eventQ.peek();
       }
 
-      // // End of this execution step. Perform cleanup.
-      // while (this._reactorsToRemove.length > 0) {
-      //   // const r = this._reactorsToRemove.pop();
-      //   // FIXME: doing this for the entire model at the end of execution
-      //   // could be a pretty significant performance hit, so we probably
-      //   // don't want to do this
-      //   // r?._unplug() FIXME: visibility
-      // }
-
       // Peek at the event queue to see whether we can process the next event
       // or should give control back to the JS event loop.
       nextEvent = this._eventQ.peek();
@@ -2418,11 +4327,26 @@ export class App extends Reactor {
    * stimuli.
    */
   private _next(): void {
+    this._tracer?.resume();
+    if (this._done) {
+      return;
+    }
+    if (this._pendingReaction !== undefined) {
+      // An asynchronous reaction is in progress. Once it completes, it will
+      // invoke this method again.
+      return;
+    }
     let nextEvent = this._eventQ.peek();
     if (nextEvent != null || !this._isDone) {
       if (nextEvent != null && this._isDone) {
         // We're trying to advance a tag to the next event.
 
+        // Hold off while paused, unless a step is requested that includes
+        // the next tag.
+        if (this._holdAt(nextEvent.tag)) {
+          return;
+        }
+
         // Check whether the next event can be handled, or not quite yet.
         // A holdup can occur in a federated execution.
         if (!this._canProceed(nextEvent)) {
@@ -2434,7 +4358,7 @@ export class App extends Reactor {
         // (unless the "fast" option is enabled), and give back control to
         // the JS event loop.
         if (
-          getCurrentPhysicalTime().isEarlierThan(nextEvent.tag.time) &&
+          this._clock.now().isEarlierThan(nextEvent.tag.time) &&
           !this._fast
         ) {
           this._setAlarmOrYield(nextEvent.tag);
@@ -2443,24 +4367,40 @@ export class App extends Reactor {
 
         // Advance logical time.
         this._advanceTime(nextEvent.tag);
+        if (
+          this._endOfExecution?.isSimultaneousWith(this._currentTag) ??
+          false
+        ) {
+          this._startGracePeriod();
+        }
 
         // Start time step.
         this._startTimeStep();
       }
       // Start processing events.
+      this._processingTag = true;
+      if (this._isDone) {
+        this._beginStep();
+      }
       this._popEvents();
+      this._measureTag();
 
       // React to all the events loaded onto the reaction queue.
       this._isDone = this._react();
       if (!this._isDone) {
         return;
       }
+      this._applyModeTransitions();
+      this._removeDeletedReactors();
+      this._processingTag = false;
       nextEvent = this._eventQ.peek();
 
       // Done handling events.
       // _iterationComplete() sends a LTC (Logical Tag Complete) message when federated.
       // Make sure that a federate sends LTC only after actually handling an event.
       this._iterationComplete();
+      this._checkpointIfDue();
+      this._completeStep();
     }
 
     // Once we've reached here, either we're done processing events and the
@@ -2476,30 +4416,55 @@ export class App extends Reactor {
       this._finish();
     } else {
       if (nextEvent != null) {
-        Log.globalLogger.debug("Event queue not empty.");
+        Log.debug(this, () => "Event queue not empty.");
         this._setAlarmOrYield(nextEvent.tag);
       } else {
         // The queue is empty, and no end of execution has been specified.
         if (this._keepAlive) {
           // Keep alive: snooze and wake up later.
-          Log.globalLogger.debug("Going to sleep.");
+          Log.debug(this, () => "Going to sleep.");
           this.snooze
             .asSchedulable(this._getKey(this.snooze))
             .schedule(this._advanceMessageInterval, this._currentTag);
         } else {
           // Don't keep alive: initiate shutdown.
-          Log.globalLogger.debug("Initiating shutdown.");
-          this._shutdown();
+          Log.debug(this, () => "Initiating shutdown.");
+          this._stopFor(TerminationReason.EMPTY_QUEUE);
         }
       }
     }
   }
 
+  /**
+   * Record the metrics of the current tag, unless they have been recorded
+   * already, which happens if processing resumes after an asynchronous
+   * reaction has completed, or if the start tag has events of its own.
+   */
+  private _measureTag(): void {
+    if (
+      this._metrics === undefined ||
+      (this._measuredTag?.isSimultaneousWith(this._currentTag) ?? false)
+    ) {
+      return;
+    }
+    this._measuredTag = this._currentTag;
+    this._metrics.recordTag(
+      this._clock.now().toMicroseconds() -
+        this._currentTag.time.toMicroseconds(),
+      this._eventQ.size(),
+      this._reactionQ.size()
+    );
+  }
+
   /**
    * Disable the alarm and clear possible immediate next.
    */
   protected _cancelNext(): void {
     this._alarm.unset();
+    for (const alarm of this._watchdogs.values()) {
+      alarm.unset();
+    }
+    this._watchdogs.clear();
     if (this._immediateRef != null) {
       clearImmediate(this._immediateRef);
       this._immediateRef = undefined;
@@ -2521,11 +4486,12 @@ export class App extends Reactor {
       return;
     }
 
-    const physicalTime = getCurrentPhysicalTime();
+    const physicalTime = this._clock.now();
     const timeout = physicalTime.difference(tag.time);
     if (physicalTime.isEarlierThan(tag.time) && !this._fast) {
       // Set an alarm to be woken up when the event's tag matches physical
       // time.
+      this._tracer?.wait(tag);
       this._alarm.set(
         function (this: App) {
           this._next();
@@ -2554,16 +4520,23 @@ export class App extends Reactor {
   }
 
   /**
-   * Schedule a shutdown event at the current time if no such action has been taken yet.
-   * Clear the alarm, and set the end of execution to be the current tag.
+   * Schedule a shutdown event at the given tag, or at the next microstep if
+   * no tag is given or the given tag is not later than the current tag, and
+   * set the end of execution to be that tag. Requests to stop at a tag that
+   * is not earlier than the current end of execution are ignored.
+   * @param stopTag The tag at which to stop.
+   * @returns Whether the request was accepted.
    */
-  protected _shutdown(): void {
+  protected _shutdown(stopTag?: Tag): boolean {
+    const next = this._currentTag.getMicroStepsLater(1);
+    const tag =
+      stopTag !== undefined && stopTag.isGreaterThan(next) ? stopTag : next;
     if (
       this.__runtime.isRunning() &&
       (this._endOfExecution === undefined ||
-        this._currentTag.time.isEarlierThan(this._endOfExecution.time))
+        tag.isSmallerThan(this._endOfExecution))
     ) {
-      this._endOfExecution = this._currentTag.getMicroStepsLater(1); // FIXME: this could be a longer delay in distributed execution
+      this._endOfExecution = tag;
 
       Log.debug(this, () => "Stop requested.");
       Log.debug(
@@ -2571,11 +4544,27 @@ export class App extends Reactor {
         () => `Setting end of execution to: ${this._endOfExecution}`
       );
 
-      this.schedulable(this.shutdown).schedule(0, null);
-    } else {
-      Log.globalLogger.debug(
-        "Ignoring App._shutdown() call after shutdown has already started."
-      );
+      this.__runtime.schedule(new TaggedEvent(this.shutdown, tag, null));
+      return true;
+    }
+    Log.debug(
+      this,
+      () => "Ignoring App._shutdown() call after shutdown has already started."
+    );
+    return false;
+  }
+
+  /**
+   * Request to stop at the given tag, or at the next microstep if no tag is
+   * given, and report the given reason for stopping if the request moves the
+   * end of execution forward. A request that is ignored does not change the
+   * reason, because execution does not end because of it.
+   * @param reason The reason for stopping.
+   * @param stopTag The tag at which to stop.
+   */
+  private _stopFor(reason: TerminationReason, stopTag?: Tag): void {
+    if (this._shutdown(stopTag)) {
+      this._terminationReason = reason;
     }
   }
 
@@ -2605,6 +4594,16 @@ export class App extends Reactor {
     }
     this._done = true;
     this._cancelNext();
+    this._graceAlarm.unset();
+    this._stepping?.resolve(this._stepping.last);
+    this._stepping = undefined;
+    this._tracer?.close();
+    this._recorder?.close();
+    if (this._metrics !== undefined) {
+      // Metrics have been asked for explicitly, so print them regardless of
+      // the log level.
+      console.log(`>>> Metrics:\n${this._metrics.summary()}`);
+    }
     Log.info(this, () => Log.hr);
     Log.info(
       this,
@@ -2631,6 +4630,20 @@ export class App extends Reactor {
     } else {
       this.success();
     }
+    this._completion?.({
+      tag: this._currentTag,
+      elapsedPhysicalTime: this.util.getElapsedPhysicalTime(),
+      errored: this._errored,
+      errorMessage: this._errorMessage,
+      reason:
+        this._terminationReason ??
+        (this._executionTimeout !== undefined &&
+        this._currentTag.time.isEqualTo(
+          this._startOfExecution.add(this._executionTimeout)
+        )
+          ? TerminationReason.TIMEOUT
+          : TerminationReason.STOP)
+    });
   }
 
   /**
@@ -2644,9 +4657,9 @@ export class App extends Reactor {
   protected _analyzeDependencies(): void {
     Log.info(this, () => Log.hr);
     const initStart = getCurrentPhysicalTime();
-    Log.globalLogger.info(">>> Initializing");
+    Log.info(this, () => ">>> Initializing");
 
-    Log.globalLogger.debug("Initiating startup sequence.");
+    Log.debug(this, () => "Initiating startup sequence.");
 
     // Obtain the precedence graph, ensure it has no cycles,
     // and assign a priority to each reaction in the graph.
@@ -2662,8 +4675,12 @@ export class App extends Reactor {
     // 2. Update priorities.
     Log.debug(this, () => "After collapse: " + collapsed.toString());
 
-    if (collapsed.updatePriorities(true)) {
-      Log.globalLogger.debug("No cycles.");
+    if (
+      this._schedulingPolicy === SchedulingPolicy.EDF
+        ? collapsed.updatePrioritiesByDeadline(true)
+        : collapsed.updatePriorities(true)
+    ) {
+      Log.debug(this, () => "No cycles.");
     } else {
       throw new Error("Cycle in reaction graph.");
     }
@@ -2699,6 +4716,18 @@ export class App extends Reactor {
     this._timersToSchedule.forEach((timer) => {
       this.__runtime.initialize(timer);
     });
+    // Inject the events of the recording that is being replayed, if any.
+    for (const event of this._replay ?? []) {
+      this._eventQ.push(
+        new TaggedEvent(
+          event.trigger,
+          new Tag(startTime.add(event.tag.time), event.tag.microstep),
+          event.value
+        )
+      );
+    }
+    // Timers in modes that are initially inactive wait for them to be entered.
+    this._suspendInactiveEvents();
 
     if (this._executionTimeout != null) {
       this._endOfExecution = new Tag(
@@ -2735,12 +4764,608 @@ export class App extends Reactor {
     Log.info(this, () => Log.hr);
 
     // Handle the reactions that were loaded onto the reaction queue.
+    this._processingTag = true;
+    this._beginStep();
+    this._measureTag();
     this._isDone = this._react();
+    if (this._isDone) {
+      this._applyModeTransitions();
+      this._removeDeletedReactors();
+    }
+    this._processingTag = !this._isDone;
+    // Events at the start tag, such as those of timers without an offset,
+    // are yet to be handled by `_next`.
+    if (
+      this._isDone &&
+      !(this._eventQ.peek()?.tag.isSimultaneousWith(this._currentTag) ?? false)
+    ) {
+      this._completeStep();
+    }
 
     // Continue execution by processing the next event.
     this._next();
   }
 
+  /**
+   * Set the policy that determines the order in which independent reactions
+   * that are staged at the same tag execute. This has to happen before
+   * execution starts.
+   * @param policy The scheduling policy.
+   */
+  public setSchedulingPolicy(policy: SchedulingPolicy): void {
+    if (this._active) {
+      throw new Error(
+        "Cannot change the scheduling policy of an app that has already started."
+      );
+    }
+    this._schedulingPolicy = policy;
+  }
+
+  /**
+   * Limit the amount of physical time that the processing of the tag at the
+   * end of execution may take. Once the limit elapses, for example because a
+   * shutdown reaction awaits a promise that never settles, execution ends
+   * with an error.
+   * @param limit The grace period.
+   */
+  public setShutdownGracePeriod(limit: TimeValue): void {
+    this._gracePeriod = limit;
+  }
+
+  /**
+   * Start counting down the grace period, if any, at the end of execution.
+   */
+  private _startGracePeriod(): void {
+    const limit = this._gracePeriod;
+    if (limit === undefined) {
+      return;
+    }
+    this._graceAlarm.set(() => {
+      Log.warn(
+        this,
+        () => `Forcing shutdown after a grace period of ${limit}.`
+      );
+      this.util.reportError(
+        `Shutdown was forced after a grace period of ${limit}.`
+      );
+      this._reactionQ.empty();
+      this._finish();
+    }, limit);
+  }
+
+  /**
+   * Record metrics about the execution of this app: execution times and
+   * deadline violations of reactions, and queue sizes and lag per tag. A
+   * summary is printed to the console at the end of execution.
+   */
+  public enableMetrics(): void {
+    this._metrics ??= new MetricsRegistry();
+  }
+
+  /**
+   * Return a snapshot of the metrics recorded so far, or undefined if
+   * metrics are not enabled.
+   */
+  public getMetrics(): MetricsSnapshot | undefined {
+    return this._metrics?.snapshot();
+  }
+
+  /**
+   * Register a codec to encode and decode values of a user-defined type in
+   * checkpoints.
+   * @param codec The codec to register.
+   */
+  public registerCodec<T>(codec: Codec<T>): void {
+    this._codecs.register(codec);
+  }
+
+  /**
+   * Return the state of this app: the values of its state variables, its
+   * pending events, the current modes of its reactors, and the current tag.
+   * The result can be serialized as JSON and restored using `restore` in an
+   * app that is constructed in the same way as this one. Values that are not
+   * preserved when serialized as JSON require a codec to be registered.
+   *
+   * This method can only be invoked at a tag boundary, i.e., not from within
+   * a reaction. Watchdogs are not included in checkpoints; they have to be
+   * started again after restoring one.
+   */
+  public checkpoint(): Checkpoint {
+    if (!this._active) {
+      throw new Error("Cannot checkpoint an app before execution has started.");
+    }
+    if (this._processingTag) {
+      throw new Error("Cannot checkpoint an app in the middle of a tag.");
+    }
+    const origin = this._startOfExecution;
+    const states: Record<string, EncodedValue> = {};
+    for (const [path, state] of this._collectByPath<State<unknown>>(State)) {
+      states[path] = this._codecs.encode(state.get(), path);
+    }
+    const timers: Record<string, EncodedTimer> = {};
+    for (const [path, timer] of this._collectByPath(Timer)) {
+      timers[path] = {
+        period: timer.period.toTimeTuple(),
+        paused: timer._isPaused()
+      };
+    }
+    const triggers = new Map<ScheduledTrigger<unknown>, string>();
+    for (const [path, trigger] of this._collectByPath<
+      ScheduledTrigger<unknown>
+    >(ScheduledTrigger)) {
+      triggers.set(trigger, path);
+    }
+    const encode = (event: TaggedEvent<unknown>): EncodedEvent => {
+      const path = triggers.get(event.trigger);
+      if (path === undefined) {
+        throw new Error(
+          `Cannot checkpoint event of ${event.trigger}, which is not a property of its container.`
+        );
+      }
+      return {
+        trigger: path,
+        tag: this._codecs.encodeTag(event.tag, origin),
+        value: this._codecs.encode(event.value, path)
+      };
+    };
+    const events = this._eventQ.toArray().map(encode);
+    const modes = new Array<string>();
+    for (const [path, mode] of this._collectByPath(Mode)) {
+      if (mode.getContainer()._getCurrentMode() === mode) {
+        modes.push(path);
+      }
+      for (const [event, tag] of mode._getSuspended()) {
+        events.push({
+          ...encode(event),
+          suspended: {mode: path, tag: this._codecs.encodeTag(tag, origin)}
+        });
+      }
+    }
+    return {
+      version: CHECKPOINT_VERSION,
+      tag: this._codecs.encodeTag(this._currentTag, origin),
+      end:
+        this._endOfExecution !== undefined
+          ? this._codecs.encodeTag(this._endOfExecution, origin)
+          : undefined,
+      states,
+      modes,
+      timers,
+      events,
+      lastCheckpoint: this._checkpoints?.last?.subtract(origin).toTimeTuple()
+    };
+  }
+
+  /**
+   * Checkpoint this app periodically in logical time. Checkpoints are taken
+   * at the end of the first tag that is at least the given interval later
+   * than the previous checkpoint (or the start of execution).
+   * @param interval The interval between checkpoints in logical time.
+   * @param handler Function to hand the checkpoints to.
+   */
+  public enableCheckpoints(
+    interval: TimeValue,
+    handler: (checkpoint: Checkpoint) => void
+  ): void {
+    this._checkpoints = {interval, handler, last: undefined};
+  }
+
+  /**
+   * Take a checkpoint if periodic checkpoints are enabled and one is due.
+   */
+  private _checkpointIfDue(): void {
+    if (this._checkpoints === undefined) {
+      return;
+    }
+    const last = this._checkpoints.last ?? this._startOfExecution;
+    if (
+      this._currentTag.time.isEarlierThan(last.add(this._checkpoints.interval))
+    ) {
+      return;
+    }
+    this._checkpoints.last = this._currentTag.time;
+    this._checkpoints.handler(this.checkpoint());
+  }
+
+  /**
+   * Restore the given checkpoint, which must have been taken of an app that
+   * is constructed in the same way as this one. Must be invoked before the
+   * app starts. State variables, modes, and the periods of timers and
+   * whether they are paused are restored immediately; upon
+   * starting, startup reactions are not triggered and timers are not
+   * initialized, but execution resumes with the pending events of the
+   * checkpoint. The start of execution is chosen such that the tag of the
+   * checkpoint corresponds to the current physical time.
+   * @param checkpoint The checkpoint to restore.
+   */
+  public restore(checkpoint: Checkpoint): void {
+    if (this._active) {
+      throw new Error(
+        "Cannot restore a checkpoint after execution has started."
+      );
+    }
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+      throw new Error(`Unsupported checkpoint version: ${checkpoint.version}.`);
+    }
+    const lookup = <T>(found: Map<string, T>, path: string): T => {
+      const component = found.get(path);
+      if (component === undefined) {
+        throw new Error(`Checkpoint refers to unknown component ${path}.`);
+      }
+      return component;
+    };
+    const origin = TimeValue.zero();
+    const states = this._collectByPath<State<unknown>>(State);
+    for (const [path, value] of Object.entries(checkpoint.states)) {
+      lookup(states, path).set(this._codecs.decode(value, path));
+    }
+    const modes = this._collectByPath(Mode);
+    for (const path of checkpoint.modes) {
+      const mode = lookup(modes, path);
+      mode.getContainer()._setCurrentMode(mode);
+    }
+    const timers = this._collectByPath(Timer);
+    for (const [path, timer] of Object.entries(checkpoint.timers)) {
+      const [seconds, nanoseconds] = timer.period;
+      lookup(timers, path)._restore(
+        TimeValue.secsAndNs(seconds, nanoseconds),
+        timer.paused
+      );
+    }
+    const triggers =
+      this._collectByPath<ScheduledTrigger<unknown>>(ScheduledTrigger);
+    const last = checkpoint.lastCheckpoint;
+    this._resumption = {
+      tag: this._codecs.decodeTag(checkpoint.tag, origin),
+      end:
+        checkpoint.end !== undefined
+          ? this._codecs.decodeTag(checkpoint.end, origin)
+          : undefined,
+      events: checkpoint.events.map((e) => [
+        new TaggedEvent(
+          lookup(triggers, e.trigger),
+          this._codecs.decodeTag(e.tag, origin),
+          this._codecs.decode(e.value, e.trigger)
+        ),
+        e.suspended !== undefined
+          ? [
+              lookup(modes, e.suspended.mode),
+              this._codecs.decodeTag(e.suspended.tag, origin)
+            ]
+          : undefined
+      ]),
+      lastCheckpoint:
+        last !== undefined ? TimeValue.secsAndNs(last[0], last[1]) : undefined
+    };
+  }
+
+  /**
+   * Resume execution from the checkpoint being restored. The start of
+   * execution is set such that the tag of the checkpoint corresponds to the
+   * current physical time, unless the clock reads an earlier time than the
+   * elapsed time of the checkpoint, in which case it is set to zero.
+   * @param resumption The tags, events, and time of the last periodic
+   * checkpoint to resume execution with, relative to the start of execution.
+   */
+  private _resumeFrom(resumption: {
+    tag: Tag;
+    end: Tag | undefined;
+    events: Array<[TaggedEvent<unknown>, [Mode, Tag] | undefined]>;
+    lastCheckpoint: TimeValue | undefined;
+  }): void {
+    const now = this._clock.now();
+    const elapsed = resumption.tag.time;
+    const start = now.isEarlierThan(elapsed)
+      ? TimeValue.zero()
+      : now.subtract(elapsed);
+    const shift = (tag: Tag): Tag =>
+      new Tag(start.add(tag.time), tag.microstep);
+    this._startOfExecution = start;
+    this._currentTag = shift(resumption.tag);
+    this._active = true;
+    if (resumption.end !== undefined) {
+      this._endOfExecution = shift(resumption.end);
+    }
+    if (this._checkpoints !== undefined) {
+      this._checkpoints.last =
+        resumption.lastCheckpoint !== undefined
+          ? start.add(resumption.lastCheckpoint)
+          : undefined;
+    }
+    for (const [event, suspended] of resumption.events) {
+      const shifted = new TaggedEvent(
+        event.trigger,
+        shift(event.tag),
+        event.value
+      );
+      if (suspended === undefined) {
+        this._eventQ.push(shifted);
+      } else {
+        suspended[0]._suspend(shifted, shift(suspended[1]));
+      }
+    }
+  }
+
+  /**
+   * Record the events of physical actions in the given file, so that this
+   * execution can be reproduced using `enableReplay`. Values that are not
+   * preserved when serialized as JSON require a codec to be registered
+   * using `registerCodec`. Must be invoked before the app starts.
+   * @param file The path of the recording to create.
+   */
+  public enableRecording(file: string): void {
+    if (this._active) {
+      throw new Error("Cannot enable recording after execution has started.");
+    }
+    if (this._replay !== undefined) {
+      throw new Error("Cannot record while replaying a recording.");
+    }
+    this._recorder?.close();
+    this._recorder = new Recorder(file);
+  }
+
+  /**
+   * Replay the events of physical actions recorded in the given file. They
+   * occur at the same tags, relative to the start of execution, as in the
+   * recorded execution, whereas any events that physical actions are
+   * scheduled with during the replay are ignored. To decouple execution from
+   * physical time, the app executes in fast mode and does not keep alive
+   * once its event queue is empty. Codecs needed to decode the recorded
+   * values must be registered before invoking this method, and this method
+   * must be invoked before the app starts.
+   * @param file The path of the recording to replay.
+   */
+  public enableReplay(file: string): void {
+    if (this._active) {
+      throw new Error("Cannot enable replay after execution has started.");
+    }
+    if (this._recorder !== undefined) {
+      throw new Error("Cannot replay a recording while recording.");
+    }
+    const actions = this._collectByPath<Action<unknown>>(Action);
+    this._replay = Recorder.load(file).map((e) => {
+      const action = actions.get(e.action);
+      if (action?.origin !== Origin.physical) {
+        throw new Error(
+          `Recording refers to unknown physical action ${e.action}.`
+        );
+      }
+      return new TaggedEvent(
+        action,
+        this._codecs.decodeTag(e.tag, TimeValue.zero()),
+        this._codecs.decode(e.value, e.action)
+      );
+    });
+    this._fast = true;
+    this._keepAlive = false;
+  }
+
+  /**
+   * Record the given event of a physical action, if recording is enabled.
+   * @param event The event to record.
+   */
+  private _record(event: TaggedEvent<unknown>): void {
+    if (this._recorder === undefined || !this._active) {
+      return;
+    }
+    let path = this._actionPaths.get(event.trigger as Action<unknown>);
+    if (path === undefined) {
+      // The action may have been created after the last lookup.
+      for (const [p, action] of this._collectByPath<Action<unknown>>(Action)) {
+        this._actionPaths.set(action, p);
+      }
+      path = this._actionPaths.get(event.trigger as Action<unknown>);
+    }
+    if (path === undefined) {
+      Log.warn(
+        this,
+        () =>
+          `Cannot record event of ${event.trigger}, which is not a property of its container.`
+      );
+      return;
+    }
+    this._recorder.record({
+      action: path,
+      tag: this._codecs.encodeTag(event.tag, this._startOfExecution),
+      value: this._codecs.encode(event.value, path)
+    });
+  }
+
+  /**
+   * Start executing this app.
+   * @returns A promise that resolves with a report of the execution once it
+   * has ended, or rejects if the app cannot be started. If a reaction throws
+   * an exception that aborts execution, the promise resolves with a report
+   * of the error instead of the exception being thrown.
+   */
+  public async run(): Promise<ExecutionReport> {
+    if (this._active) {
+      throw new Error("Cannot run an app that has already started.");
+    }
+    return await new Promise((resolve) => {
+      this._completion = resolve;
+      this._start();
+    });
+  }
+
+  /**
+   * Stop execution at the next microstep. Unlike `util.requestStop`, this
+   * method can be invoked from outside of reactions. If this app is paused,
+   * it is resumed.
+   */
+  public stop(): void {
+    if (!this._active) {
+      throw new Error("Cannot stop an app before execution has started.");
+    }
+    if (this._done) {
+      return;
+    }
+    this._stopFor(TerminationReason.STOP);
+    if (this._paused) {
+      this.resume();
+    }
+  }
+
+  /**
+   * Pause this app. The current tag, if any, is completed, after which this
+   * app does not advance to a next tag until requested to by `step`,
+   * `stepUntil`, or `resume`. The startup tag is processed when the app
+   * starts, even if it was paused before.
+   */
+  public pause(): void {
+    this._paused = true;
+  }
+
+  /**
+   * Return whether this app is paused.
+   */
+  public isPaused(): boolean {
+    return this._paused;
+  }
+
+  /**
+   * Process the next tag while paused.
+   * @returns A promise that resolves with a report of the processed tag once
+   * it has been processed, or with undefined if execution ends before any
+   * tag was processed.
+   */
+  public async step(): Promise<StepReport | undefined> {
+    return await this._requestStep(undefined);
+  }
+
+  /**
+   * Process all tags up to and including the given tag while paused.
+   * @param tag The tag to step until.
+   * @returns A promise that resolves with a report of the last processed tag
+   * once the next tag is later than the given one, or with undefined if no
+   * tag was processed.
+   */
+  public async stepUntil(tag: Tag): Promise<StepReport | undefined> {
+    return await this._requestStep(tag);
+  }
+
+  /**
+   * Stop pausing and continue execution as usual. A pending step request
+   * is completed immediately.
+   */
+  public resume(): void {
+    this._paused = false;
+    this._stepping?.resolve(this._stepping.last);
+    this._stepping = undefined;
+    if (this._active && !this._done) {
+      this._requestImmediateInvocationOfNext();
+    }
+  }
+
+  /**
+   * Report every processed tag to the given handler, or stop reporting if
+   * it is undefined.
+   * @param handler Function to invoke with a report of every processed tag.
+   */
+  public onStep(handler: ((report: StepReport) => void) | undefined): void {
+    this._stepHandler = handler;
+  }
+
+  /**
+   * Request a step while paused.
+   * @param until The tag up to which to step, or undefined to step a
+   * single tag.
+   */
+  private async _requestStep(
+    until: Tag | undefined
+  ): Promise<StepReport | undefined> {
+    if (!this._paused) {
+      throw new Error("Cannot step an app that is not paused.");
+    }
+    if (this._stepping !== undefined) {
+      throw new Error("Cannot step an app that is already stepping.");
+    }
+    if (this._done) {
+      return undefined;
+    }
+    return await new Promise((resolve) => {
+      this._stepping = {until, resolve, last: undefined};
+      if (this._active) {
+        this._requestImmediateInvocationOfNext();
+      }
+    });
+  }
+
+  /**
+   * Return whether to refrain from advancing to the given tag because this
+   * app is paused. If a pending step request does not include the tag, it
+   * is completed.
+   * @param tag The tag of the next event.
+   */
+  private _holdAt(tag: Tag): boolean {
+    if (!this._paused || tag.isSimultaneousWith(this._currentTag)) {
+      return false;
+    }
+    const stepping = this._stepping;
+    if (stepping === undefined) {
+      return true;
+    }
+    if (stepping.until?.isSmallerThan(tag) ?? false) {
+      this._stepping = undefined;
+      stepping.resolve(stepping.last);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Start recording the reactions invoked at the current tag, if they are
+   * to be reported.
+   */
+  private _beginStep(): void {
+    if (this._paused || this._stepHandler !== undefined) {
+      // Reactions invoked at startup may have been recorded already.
+      this._invoked ??= [];
+    }
+  }
+
+  /**
+   * Report the tag that was just processed, and complete a pending step
+   * request if it has been fulfilled.
+   */
+  private _completeStep(): void {
+    const invoked = this._invoked;
+    this._invoked = undefined;
+    if (invoked === undefined) {
+      return;
+    }
+    const report = {
+      tag: this._currentTag,
+      reactions: invoked.map((r) => r.toString())
+    };
+    this._stepHandler?.(report);
+    const stepping = this._stepping;
+    if (stepping === undefined) {
+      return;
+    }
+    stepping.last = report;
+    if (
+      stepping.until === undefined ||
+      !this._currentTag.isSmallerThan(stepping.until)
+    ) {
+      this._stepping = undefined;
+      stepping.resolve(report);
+    }
+  }
+
+  /**
+   * Record a trace of the execution of this app in the given file, in the
+   * Chrome Trace Event format. Must be invoked before the app starts.
+   * @param file The path of the trace file to create.
+   */
+  public enableTracing(file: string): void {
+    if (this._active) {
+      throw new Error("Cannot enable tracing after execution has started.");
+    }
+    this._tracer?.close();
+    this._tracer = new Tracer(file, this._clock, this._getFullyQualifiedName());
+  }
+
   /**
    * Start the app.
    */
@@ -2748,12 +5373,17 @@ export class App extends Reactor {
     // First analyze the dependency graph to determine whether it is valid.
     this._analyzeDependencies();
 
-    // Then load any reactions that were staged during the instantiation of
-    // any of the reactors.
-    this._loadStartupReactions();
+    if (this._resumption === undefined) {
+      // Then load any reactions that were staged during the instantiation of
+      // any of the reactors.
+      this._loadStartupReactions();
 
-    // Use the current physical time to set the app's start of execution.
-    this._determineStartAndEndOfExecution(getCurrentPhysicalTime());
+      // Use the current physical time to set the app's start of execution.
+      this._determineStartAndEndOfExecution(this._clock.now());
+    } else {
+      // Pick up where the restored checkpoint left off.
+      this._resumeFrom(this._resumption);
+    }
 
     // Start the main event loop.
     this._startExecuting();
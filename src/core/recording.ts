@@ -0,0 +1,69 @@
+import {closeSync, openSync, readFileSync, writeSync} from "fs";
+import type {EncodedTag, EncodedValue} from "./internal";
+
+/**
+ * An event of a physical action in a recording.
+ */
+export interface RecordedEvent {
+  /**
+   * The path of the action, relative to the app.
+   */
+  action: string;
+  /**
+   * The tag of the event, relative to the start of execution.
+   */
+  tag: EncodedTag;
+  value: EncodedValue;
+}
+
+/**
+ * Records the events of physical actions in a file, one JSON object per
+ * line. Each event is written as soon as it is scheduled, so that the
+ * recording is complete up to the point where execution ends, even if it
+ * ends in a crash.
+ */
+export class Recorder {
+  /**
+   * File descriptor of the recording.
+   */
+  private fd: number | undefined;
+
+  /**
+   * Create a recording file and start recording.
+   * @param file The path of the file to create.
+   */
+  constructor(file: string) {
+    this.fd = openSync(file, "w");
+  }
+
+  /**
+   * Read the events recorded in the given file.
+   * @param file The path of the recording.
+   */
+  public static load(file: string): RecordedEvent[] {
+    return readFileSync(file, "utf8")
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as RecordedEvent);
+  }
+
+  /**
+   * Append the given event to the recording.
+   * @param event The event to record.
+   */
+  public record(event: RecordedEvent): void {
+    if (this.fd !== undefined) {
+      writeSync(this.fd, JSON.stringify(event) + "\n");
+    }
+  }
+
+  /**
+   * Stop recording and close the file.
+   */
+  public close(): void {
+    if (this.fd !== undefined) {
+      closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+}
@@ -274,6 +274,13 @@ export class TimeValue {
     return this.seconds * 1000 + Math.ceil(this.nanoseconds / 1000000);
   }
 
+  /**
+   * Return a microsecond representation of this time value.
+   */
+  public toMicroseconds(): number {
+    return this.seconds * 1000000 + this.nanoseconds / 1000;
+  }
+
   /**
    * Print the number of seconds and nanoseconds in the time interval encoded
    * by this time value.
@@ -546,6 +553,94 @@ export function getCurrentPhysicalTime(): TimeValue {
   return TimeValue.secsAndNs(seconds, nseconds);
 }
 
+/**
+ * A source of physical time. All reads of physical time by the runtime go
+ * through a clock, so that the platform clock can be substituted with a
+ * clock that is advanced manually, which makes the timing-dependent behavior
+ * of a program (deadlines, physical actions, timeouts) deterministic.
+ * @see RealClock
+ * @see VirtualClock
+ */
+export interface Clock {
+  /**
+   * Return the current physical time according to this clock.
+   */
+  now: () => TimeValue;
+}
+
+/**
+ * A clock that reports the physical time of the platform.
+ */
+export class RealClock implements Clock {
+  /**
+   * Return the current physical time as reported by the platform.
+   */
+  now(): TimeValue {
+    return getCurrentPhysicalTime();
+  }
+}
+
+/**
+ * A clock that only advances when explicitly told to do so. Alarms that are
+ * set relative to a virtual clock go off as soon as the clock is advanced
+ * past their deadline, irrespective of how much real time has elapsed.
+ */
+export class VirtualClock implements Clock {
+  /**
+   * Callbacks to invoke whenever this clock is advanced.
+   */
+  private readonly listeners = new Set<() => void>();
+
+  /**
+   * Create a new virtual clock.
+   * @param time The time to which to initialize the clock (defaults to zero).
+   */
+  constructor(private time: TimeValue = TimeValue.zero()) {}
+
+  /**
+   * Return the time this clock was last advanced to.
+   */
+  now(): TimeValue {
+    return this.time;
+  }
+
+  /**
+   * Advance this clock by the given amount of time.
+   * @param delay The amount of time to advance the clock by.
+   */
+  advance(delay: TimeValue): void {
+    this.advanceTo(this.time.add(delay));
+  }
+
+  /**
+   * Advance this clock to the given time, which cannot be earlier than the
+   * current time of this clock.
+   * @param time The time to advance the clock to.
+   */
+  advanceTo(time: TimeValue): void {
+    if (time.isEarlierThan(this.time)) {
+      throw new Error("Cannot move a virtual clock backward in time.");
+    }
+    this.time = time;
+    // Iterate over a copy because listeners may unsubscribe themselves.
+    for (const listener of Array.from(this.listeners)) {
+      listener();
+    }
+  }
+
+  /**
+   * Register a callback to be invoked whenever this clock is advanced.
+   * @param listener The function to invoke.
+   * @returns A function that unregisters the callback.
+   */
+  onAdvance(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
 /**
  * Simple but accurate alarm that makes use of high-resolution timer.
  * The algorithm is inspired by nanotimer, written by Kevin Briggs.
@@ -578,11 +673,24 @@ export class Alarm {
    */
   hiResDelay: [number, number] = [0, 0];
 
+  /**
+   * Handle for the subscription to a virtual clock, used instead of timeouts
+   * and immediates if the alarm is driven by a virtual clock.
+   */
+  advanceRef: (() => void) | undefined;
+
   /**
    * Indicates whether the alarm has been set or not.
    */
   active = false;
 
+  /**
+   * Create a new alarm.
+   * @param clock The clock to measure the delay with (defaults to the
+   * platform clock).
+   */
+  constructor(private readonly clock: Clock = new RealClock()) {}
+
   /**
    * Disable any scheduled timeouts or immediate events, and set the timer to
    * inactive.
@@ -598,6 +706,11 @@ export class Alarm {
       this.immediateRef = undefined;
     }
 
+    if (this.advanceRef != null) {
+      this.advanceRef();
+      this.advanceRef = undefined;
+    }
+
     this.active = false;
   }
 
@@ -612,12 +725,16 @@ export class Alarm {
     callback?: (waitTime: TimeValue) => void
   ): void {
     // Record the current time.
-    const hiResDif = process.hrtime(this.hiResStart);
+    const start = TimeValue.secsAndNs(...this.hiResStart);
+    const now = this.clock.now();
+    const hiResDif = now.isEarlierThan(start)
+      ? TimeValue.zero().toTimeTuple()
+      : now.subtract(start).toTimeTuple();
 
     // See whether the requested delay has elapsed.
     if (
       this.hiResDelay[0] < hiResDif[0] ||
-      (this.hiResDelay[0] === hiResDif[0] && this.hiResDelay[1] < hiResDif[1])
+      (this.hiResDelay[0] === hiResDif[0] && this.hiResDelay[1] <= hiResDif[1])
     ) {
       // No more immediates a scheduled.
       this.immediateRef = undefined;
@@ -651,8 +768,15 @@ export class Alarm {
       }
     } else {
       // The delay has not yet elapsed.
-      // The following logic is based on the implementation of nanotimer.
-      if (this.loResDelay > 25) {
+      if (this.clock instanceof VirtualClock) {
+        // Time only passes when the clock is advanced; try again then.
+        this.advanceRef = this.clock.onAdvance(() => {
+          this.advanceRef?.();
+          this.advanceRef = undefined;
+          this.try(task, callback);
+        });
+      } else if (this.loResDelay > 25) {
+        // The following logic is based on the implementation of nanotimer.
         if (!this.active) {
           this.deferredRef = setTimeout(() => {
             this.try(task, callback);
@@ -692,7 +816,7 @@ export class Alarm {
     this.loResDelay = delay.toMilliseconds();
 
     // Record the beginning of the delay interval.
-    this.hiResStart = process.hrtime();
+    this.hiResStart = this.clock.now().toTimeTuple();
     this.try(task, callback);
   }
 }
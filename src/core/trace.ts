@@ -0,0 +1,235 @@
+import {closeSync, openSync, writeSync} from "fs";
+import type {
+  Clock,
+  Reaction,
+  Tag,
+  TaggedEvent,
+  TimeValue,
+  Variable
+} from "./internal";
+
+/**
+ * An event in the Chrome Trace Event format, which can be opened in
+ * `chrome://tracing` and Perfetto. Timestamps and durations are in
+ * microseconds.
+ * @see https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+ */
+interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: "X" | "i" | "M";
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  s?: "t";
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Threads of the trace, one for each kind of activity that is recorded.
+ */
+enum TraceThread {
+  REACTIONS = 1,
+  EVENTS = 2,
+  ALARMS = 3
+}
+
+/**
+ * Records the execution of an app in a file in the Chrome Trace Event
+ * format. Reaction invocations and waits for alarms are recorded as complete
+ * events, the popping of events from the event queue as instant events.
+ * Physical times are recorded relative to the creation of the tracer.
+ */
+export class Tracer {
+  /**
+   * Number of events to buffer before writing them to the file.
+   */
+  private static readonly bufferSize = 1000;
+
+  /**
+   * File descriptor of the trace file.
+   */
+  private fd: number | undefined;
+
+  /**
+   * Serialized events that are yet to be written to the file.
+   */
+  private buffer = new Array<string>();
+
+  /**
+   * Whether any events have been written to the file yet.
+   */
+  private flushed = false;
+
+  /**
+   * The physical time at which this tracer was created.
+   */
+  private readonly origin: TimeValue;
+
+  /**
+   * If waiting for an alarm, the physical time at which the wait started and
+   * the tag of the event that is waited for.
+   */
+  private waiting: [TimeValue, Tag] | undefined;
+
+  /**
+   * Create a trace file and start recording.
+   * @param file The path of the trace file to create.
+   * @param clock The clock to read physical time from.
+   * @param name The name of the app that is traced.
+   */
+  constructor(
+    file: string,
+    private readonly clock: Clock,
+    name: string
+  ) {
+    this.origin = clock.now();
+    this.fd = openSync(file, "w");
+    writeSync(this.fd, "[\n");
+    this.record({
+      name: "process_name",
+      ph: "M",
+      ts: 0,
+      pid: 1,
+      tid: 0,
+      args: {name}
+    });
+    for (const [thread, tid] of [
+      ["reactions", TraceThread.REACTIONS],
+      ["events", TraceThread.EVENTS],
+      ["alarms", TraceThread.ALARMS]
+    ] as const) {
+      this.record({
+        name: "thread_name",
+        ph: "M",
+        ts: 0,
+        pid: 1,
+        tid,
+        args: {name: thread}
+      });
+    }
+  }
+
+  /**
+   * Return the current physical time.
+   */
+  private now(): TimeValue {
+    return this.clock.now();
+  }
+
+  /**
+   * Record the invocation of a reaction that started at the given physical
+   * time and ended just now.
+   * @param reaction The reaction that was invoked.
+   * @param tag The tag at which it was invoked.
+   * @param start The physical time at which it was invoked.
+   */
+  public reaction(
+    reaction: Reaction<Variable[]>,
+    tag: Tag,
+    start: TimeValue
+  ): void {
+    const ts = this.timestamp(start);
+    this.record({
+      name: reaction.toString(),
+      cat: "reaction",
+      ph: "X",
+      ts,
+      dur: this.timestamp(this.now()) - ts,
+      pid: 1,
+      tid: TraceThread.REACTIONS,
+      args: {
+        reactor: reaction.getContainer()._getFullyQualifiedName(),
+        tag: tag.toString()
+      }
+    });
+  }
+
+  /**
+   * Record that the given event was popped off the event queue.
+   * @param event The event.
+   */
+  public event(event: TaggedEvent<unknown>): void {
+    this.record({
+      name: event.trigger._getFullyQualifiedName(),
+      cat: "event",
+      ph: "i",
+      s: "t",
+      ts: this.timestamp(this.now()),
+      pid: 1,
+      tid: TraceThread.EVENTS,
+      args: {tag: event.tag.toString()}
+    });
+  }
+
+  /**
+   * Record that an alarm was set to wait for physical time to match the
+   * given tag. If already waiting, only the tag is updated.
+   * @param tag The tag of the event to wait for.
+   */
+  public wait(tag: Tag): void {
+    this.waiting = [this.waiting?.[0] ?? this.now(), tag];
+  }
+
+  /**
+   * Record the end of the current wait for an alarm, if any.
+   */
+  public resume(): void {
+    if (this.waiting === undefined) {
+      return;
+    }
+    const [start, tag] = this.waiting;
+    this.waiting = undefined;
+    const ts = this.timestamp(start);
+    this.record({
+      name: "wait",
+      cat: "alarm",
+      ph: "X",
+      ts,
+      dur: this.timestamp(this.now()) - ts,
+      pid: 1,
+      tid: TraceThread.ALARMS,
+      args: {tag: tag.toString()}
+    });
+  }
+
+  /**
+   * Write any remaining events and close the trace file.
+   */
+  public close(): void {
+    if (this.fd === undefined) {
+      return;
+    }
+    this.flush();
+    writeSync(this.fd, "\n]\n");
+    closeSync(this.fd);
+    this.fd = undefined;
+  }
+
+  /**
+   * Return the given physical time in microseconds since the creation of
+   * this tracer.
+   * @param time A physical time.
+   */
+  private timestamp(time: TimeValue): number {
+    return time.subtract(this.origin).toMicroseconds();
+  }
+
+  private record(event: TraceEvent): void {
+    this.buffer.push(JSON.stringify(event));
+    if (this.buffer.length >= Tracer.bufferSize) {
+      this.flush();
+    }
+  }
+
+  private flush(): void {
+    if (this.fd === undefined || this.buffer.length === 0) {
+      return;
+    }
+    // Separate this batch from the previous one, if any.
+    writeSync(this.fd, (this.flushed ? ",\n" : "") + this.buffer.join(",\n"));
+    this.buffer = [];
+    this.flushed = true;
+  }
+}
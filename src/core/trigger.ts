@@ -78,6 +78,25 @@ export abstract class ScheduledTrigger<T> extends Trigger {
     }
   }
 
+  /**
+   * Undo an update of this trigger at the current tag that has not been
+   * acted upon yet: make this trigger absent again and unstage the reactions
+   * that it triggered, unless another one of their triggers is present. Only
+   * to be used to roll back a mutation.
+   */
+  public _retract(): void {
+    this.value = undefined;
+    this.tag = undefined;
+    for (const r of this.reactions) {
+      const triggered = r.trigs.some(
+        (trig) => trig instanceof Trigger && trig.isPresent()
+      );
+      if (!triggered) {
+        this.runtime.unstage(r);
+      }
+    }
+  }
+
   public getManager(key: symbol | undefined): TriggerManager {
     if (this._key === key) {
       return this.manager;
@@ -1,4 +1,4 @@
-import type {Tag, TimeValue} from "./internal";
+import type {Tag, TimeValue, Transition} from "./internal";
 
 /**
  * A variable can be read, written to, or scheduled. Variables may be passed to
@@ -94,8 +94,96 @@ export interface Sortable<P> {
  * Interface for schedulable actions.
  */
 export interface Sched<T> extends Read<T> {
-  schedule: (extraDelay: TimeValue | 0, value: T, intendedTag?: Tag) => void;
-  // FIXME: it makes sense to be able to check the presence of a (re)schedulable action.
+  /**
+   * Schedule an event of the action and return a handle to it.
+   */
+  schedule: (
+    extraDelay: TimeValue | 0,
+    value: T,
+    intendedTag?: Tag
+  ) => ScheduledEvent;
+
+  /**
+   * Return true if the action is present at the current tag.
+   */
+  isPresent: () => boolean;
+
+  /**
+   * Return the number of events of the action that are scheduled but have
+   * not occurred yet, including those suspended while the mode the action is
+   * attached to is inactive.
+   */
+  pendingCount: () => number;
+}
+
+/**
+ * Handle to an event returned by `Sched.schedule`.
+ */
+export interface ScheduledEvent {
+  /**
+   * The tag at which the event occurs, or undefined if the event was
+   * discarded when it was scheduled.
+   */
+  tag: Tag | undefined;
+
+  /**
+   * Return true if the event has not occurred or been cancelled yet. An
+   * event suspended in an inactive mode is still pending.
+   */
+  isPending: () => boolean;
+
+  /**
+   * Retract the event if it is pending. Events scheduled at the same tag
+   * are merged into one, so this retracts them all.
+   * @returns True if the event was pending, false otherwise.
+   */
+  cancel: () => boolean;
+}
+
+/**
+ * Interface for watchdogs that can be started and stopped.
+ */
+export interface Watch extends Read<Tag> {
+  start: (extraTimeout?: TimeValue | 0) => void;
+  stop: () => void;
+}
+
+/**
+ * Interface for timers that can be adjusted, paused, and resumed during
+ * execution. Reading it yields the tag of the timer event if it is present.
+ */
+export interface TimerControl extends Read<Tag> {
+  /**
+   * Change the period of the timer. The next event of a periodic timer is
+   * moved so that it occurs one new period after the previous event, but no
+   * earlier than the next microstep; a zero period makes the timer stop after
+   * its next event.
+   */
+  setPeriod: (period: TimeValue | 0) => void;
+
+  /**
+   * Suspend the timer by retracting its next event.
+   */
+  pause: () => void;
+
+  /**
+   * Let the timer fire after the given phase and periodically thereafter.
+   * Resuming a timer that is not paused restarts it with the given phase.
+   */
+  resume: (phase?: TimeValue | 0) => void;
+
+  /**
+   * Return true if the timer is paused.
+   */
+  isPaused: () => boolean;
+}
+
+/**
+ * Interface for modes that can be switched to. Reading it yields whether the
+ * mode is active.
+ */
+export interface ModeSwitch extends Read<boolean> {
+  set: (transition?: Transition) => void;
 }
 
 /** Interface for passing in configuration options to a federate */
@@ -40,6 +40,16 @@ export namespace Log {
     }
   });
 
+  /**
+   * An object that logs through a logger of its own, such as a component of
+   * an app that is configured with its own log level. Messages logged on
+   * behalf of such an object are passed to its logger rather than to the
+   * global one.
+   */
+  export interface Source {
+    _getLogger: () => Logger;
+  }
+
   /**
    * Horizontal rule.
    */
@@ -75,6 +85,17 @@ export namespace Log {
     globalLogger.level = severity.valueOf();
   }
 
+  /**
+   * Return the logger to log messages on behalf of the given object with.
+   * @param obj The object on behalf of which to log.
+   */
+  const loggerOf = (obj: unknown): Logger => {
+    if (typeof obj === "object" && obj !== null && "_getLogger" in obj) {
+      return (obj as Source)._getLogger();
+    }
+    return globalLogger;
+  };
+
   /**
    * Log a message with severity `severity`. The `message` callback
    * is only invoked if the ulog instance has a log level higher than
@@ -90,7 +111,7 @@ export namespace Log {
     message: () => string,
     module?: string
   ): void => {
-    const logger = module != null ? getInstance(module) : globalLogger;
+    const logger = module != null ? getInstance(module) : loggerOf(obj);
     if (!logger.isLevelEnabled(severity.valueOf())) {
       return;
     }
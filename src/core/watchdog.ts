@@ -0,0 +1,76 @@
+import type {Absent, Read, Reactor, Tag, Watch} from "./internal";
+import {TimeValue, ScheduledTrigger} from "./internal";
+
+/**
+ * A watchdog detects the absence of activity in physical time. Once started,
+ * it expires if it is not stopped or restarted within its timeout, as
+ * measured by the physical clock of the app. Upon expiration, an event is
+ * put on the event queue that is tagged with the physical time at which the
+ * watchdog expired, which triggers any reactions that list the watchdog as a
+ * trigger. Reactions can start or stop a watchdog using the handle obtained
+ * via `Reactor.watchable`; starting a watchdog that is already running resets
+ * its timeout.
+ */
+export class Watchdog extends ScheduledTrigger<Tag> implements Read<Tag> {
+  /**
+   * The amount of physical time after which the watchdog expires.
+   */
+  readonly timeout: TimeValue;
+
+  /**
+   * Construct a new watchdog.
+   * @param __container__ The reactor containing this watchdog.
+   * @param timeout The amount of physical time after which the watchdog
+   * expires once started. Must be positive.
+   */
+  constructor(__container__: Reactor, timeout: TimeValue) {
+    super(__container__);
+    if (!TimeValue.zero().isEarlierThan(timeout)) {
+      throw new Error("The timeout of a watchdog must be positive.");
+    }
+    this.timeout = timeout;
+  }
+
+  /**
+   * Return the tag at which the watchdog expired if it expired at the
+   * current tag; return undefined otherwise.
+   */
+  public get(): Tag | Absent {
+    if (this.isPresent()) {
+      return this.tag;
+    } else {
+      return undefined;
+    }
+  }
+
+  public asWatchable(key: symbol | undefined): Watch {
+    if (this._key === key) {
+      return this.watch;
+    }
+    throw Error("Invalid reference to container.");
+  }
+
+  protected watch = new (class implements Watch {
+    constructor(private readonly watchdog: Watchdog) {}
+
+    get(): Tag | Absent {
+      return this.watchdog.get();
+    }
+
+    start(extraTimeout: TimeValue | 0 = 0): void {
+      const timeout =
+        extraTimeout instanceof TimeValue
+          ? this.watchdog.timeout.add(extraTimeout)
+          : this.watchdog.timeout;
+      this.watchdog.runtime.arm(this.watchdog, timeout);
+    }
+
+    stop(): void {
+      this.watchdog.runtime.disarm(this.watchdog);
+    }
+  })(this);
+
+  public toString(): string {
+    return this._getFullyQualifiedName();
+  }
+}
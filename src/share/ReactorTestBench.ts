@@ -0,0 +1,274 @@
+import {isDeepStrictEqual} from "util";
+import {
+  type ExecutionReport,
+  type Reactor,
+  type Sched,
+  type Variable,
+  type WritablePort,
+  App,
+  Action,
+  InPort,
+  IOPort,
+  MultiPort,
+  Origin,
+  OutPort,
+  type Tag,
+  TimeValue,
+  VirtualClock
+} from "../core/internal";
+
+/**
+ * A value that is scheduled to be presented to an input of the reactor under
+ * test at a given tag.
+ */
+interface Stimulus {
+  tag: Tag;
+  driver: WritablePort<unknown>;
+  value: unknown;
+}
+
+/**
+ * A top-level reactor that wraps a reactor under test, feeds values into its
+ * inputs at scripted tags, and records every value that appears on its
+ * outputs along with the tag at which it appeared.
+ *
+ * The bench executes in fast mode, driven by a virtual clock that starts at
+ * zero, so the start tag is `new Tag(TimeValue.zero(), 0)` and all tags used
+ * to script inputs and check outputs are relative to the start of execution.
+ */
+export class ReactorTestBench<T extends Reactor> extends App {
+  /**
+   * The reactor under test.
+   */
+  readonly dut: T;
+
+  /**
+   * Ports of the bench that feed values into the inputs of the reactor under
+   * test, indexed by the input they are connected to.
+   */
+  private readonly drivers = new Map<IOPort<unknown>, InPort<unknown>>();
+
+  /**
+   * Values observed on the outputs of the reactor under test, indexed by the
+   * output they were observed on.
+   */
+  private readonly recorded = new Map<IOPort<unknown>, Array<[Tag, unknown]>>();
+
+  /**
+   * Scripted inputs, in tag order.
+   */
+  private readonly stimuli = new Array<Stimulus>();
+
+  /**
+   * Index of the next stimulus to present.
+   */
+  private cursor = 0;
+
+  /**
+   * Action used to advance from one scripted tag to the next.
+   */
+  private readonly advance = new Action<null>(this, Origin.logical);
+
+  /**
+   * Create a new test bench.
+   * @param create Function that instantiates the reactor under test inside
+   * the given container.
+   * @param timeout Optional timeout after which to stop execution. Without
+   * one, execution stops when there are no more events to process.
+   */
+  constructor(create: (container: Reactor) => T, timeout?: TimeValue) {
+    super(
+      timeout,
+      false,
+      true,
+      undefined,
+      undefined,
+      new VirtualClock(TimeValue.zero())
+    );
+    this.dut = create(this);
+
+    const writers = new Array<WritablePort<unknown>>();
+    const probes = new Array<[OutPort<unknown>, Array<[Tag, unknown]>]>();
+    for (const port of this.findPorts()) {
+      if (port instanceof InPort) {
+        const driver = new InPort<unknown>(this);
+        this._connect(driver, port);
+        this.drivers.set(port, driver);
+        writers.push(this.writable(driver));
+      } else if (port instanceof OutPort) {
+        const probe = new OutPort<unknown>(this);
+        const record = new Array<[Tag, unknown]>();
+        this._connect(port, probe);
+        this.recorded.set(port, record);
+        probes.push([probe, record]);
+      }
+    }
+
+    // Reactions of a reactor execute in the order they are declared in, so
+    // the reaction that presents stimuli must be declared before the ones
+    // that record the outputs it (indirectly) produces.
+    this.addReaction(
+      [this.startup, this.advance],
+      [this.schedulable(this.advance), ...writers] as Variable[],
+      (advance) => {
+        this.present(this.util.getCurrentTag(), advance as Sched<null>);
+      }
+    );
+    for (const [probe, record] of probes) {
+      this.addReaction([probe], [probe], function (this, probe) {
+        record.push([this.util.getCurrentTag(), probe.get()]);
+      });
+    }
+  }
+
+  /**
+   * Return the input and output ports of the reactor under test, including
+   * the channels of its multiports.
+   */
+  private findPorts(): Array<IOPort<unknown>> {
+    const ports = new Array<IOPort<unknown>>();
+    for (const [, value] of Object.entries(this.dut)) {
+      if (value instanceof IOPort && value._isContainedBy(this.dut)) {
+        ports.push(value as IOPort<unknown>);
+      } else if (value instanceof MultiPort && value._isContainedBy(this.dut)) {
+        for (const channel of value.channels()) {
+          ports.push(channel as IOPort<unknown>);
+        }
+      }
+    }
+    return ports;
+  }
+
+  /**
+   * Present all stimuli scripted for the given tag, and schedule the advance
+   * action to move closer to the tag of the next stimulus.
+   * @param tag The current tag.
+   * @param advance The advance action.
+   */
+  private present(tag: Tag, advance: Sched<null>): void {
+    while (
+      this.cursor < this.stimuli.length &&
+      this.stimuli[this.cursor].tag.isSimultaneousWith(tag)
+    ) {
+      const stimulus = this.stimuli[this.cursor++];
+      stimulus.driver.set(stimulus.value);
+    }
+    if (this.cursor < this.stimuli.length) {
+      const next = this.stimuli[this.cursor].tag;
+      // A zero delay advances the microstep; a nonzero delay advances time
+      // and resets the microstep, after which zero delays catch up with the
+      // microstep of the next stimulus.
+      advance.schedule(
+        next.time.isEqualTo(tag.time) ? 0 : next.time.subtract(tag.time),
+        null
+      );
+    }
+  }
+
+  /**
+   * Script a value to be presented to an input of the reactor under test.
+   * @param port An input port of the reactor under test.
+   * @param value The value to present.
+   * @param tag The tag at which to present the value.
+   */
+  public setInput<V>(port: InPort<V>, value: V, tag: Tag): this {
+    if (this._active) {
+      throw new Error("Cannot script inputs after execution has started.");
+    }
+    const driver = this.drivers.get(port as IOPort<unknown>);
+    if (driver === undefined) {
+      throw new Error(
+        `${port._getFullyQualifiedName()} is not an input of the reactor under test.`
+      );
+    }
+    const stimulus = {tag, driver: this.writable(driver), value};
+    // Keep the stimuli sorted; stimuli with equal tags retain their order.
+    const index = this.stimuli.findIndex((s) => tag.isSmallerThan(s.tag));
+    if (index < 0) {
+      this.stimuli.push(stimulus);
+    } else {
+      this.stimuli.splice(index, 0, stimulus);
+    }
+    return this;
+  }
+
+  /**
+   * Execute the bench.
+   * @returns A promise that resolves with a report of the execution once it
+   * has finished, or rejects if it finishes with an error.
+   */
+  public async run(): Promise<ExecutionReport> {
+    const report = await super.run();
+    if (report.errored) {
+      throw new Error(report.errorMessage ?? "Execution failed.");
+    }
+    return report;
+  }
+
+  /**
+   * Return all values recorded on the given output, along with their tags.
+   * @param port An output port of the reactor under test.
+   */
+  public getOutputs<V>(port: OutPort<V>): Array<[Tag, V]> {
+    const record = this.recorded.get(port as IOPort<unknown>);
+    if (record === undefined) {
+      throw new Error(
+        `${port._getFullyQualifiedName()} is not an output of the reactor under test.`
+      );
+    }
+    return record as Array<[Tag, V]>;
+  }
+
+  /**
+   * Return the value recorded on the given output at the given tag, or
+   * undefined if the output was absent at that tag.
+   * @param port An output port of the reactor under test.
+   * @param tag The tag to look up.
+   */
+  public getOutput<V>(port: OutPort<V>, tag: Tag): V | undefined {
+    return this.getOutputs(port).find(([t]) => t.isSimultaneousWith(tag))?.[1];
+  }
+
+  /**
+   * Assert that the given output had the given value at the given tag.
+   * Values are compared structurally.
+   * @param port An output port of the reactor under test.
+   * @param value The expected value.
+   * @param tag The tag at which the value is expected.
+   */
+  public expectOutput<V>(port: OutPort<V>, value: V, tag: Tag): void {
+    const actual = this.getOutputs(port).find(([t]) =>
+      t.isSimultaneousWith(tag)
+    );
+    if (actual === undefined) {
+      throw new Error(
+        `Expected ${port._getFullyQualifiedName()} to have value ` +
+          `${JSON.stringify(value)} at tag ${tag}, but it was absent.`
+      );
+    }
+    if (!isDeepStrictEqual(actual[1], value)) {
+      throw new Error(
+        `Expected ${port._getFullyQualifiedName()} to have value ` +
+          `${JSON.stringify(value)} at tag ${tag}, but it had value ` +
+          `${JSON.stringify(actual[1])}.`
+      );
+    }
+  }
+
+  /**
+   * Assert that the given output was absent at the given tag.
+   * @param port An output port of the reactor under test.
+   * @param tag The tag at which the output is expected to be absent.
+   */
+  public expectAbsent<V>(port: OutPort<V>, tag: Tag): void {
+    const actual = this.getOutputs(port).find(([t]) =>
+      t.isSimultaneousWith(tag)
+    );
+    if (actual !== undefined) {
+      throw new Error(
+        `Expected ${port._getFullyQualifiedName()} to be absent at tag ` +
+          `${tag}, but it had value ${JSON.stringify(actual[1])}.`
+      );
+    }
+  }
+}